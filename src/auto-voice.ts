@@ -0,0 +1,109 @@
+/**
+ * Choice of a voice for text in a detected language, used by `voice: 'auto'`.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { DEFAULT_VOICE } from './constants';
+import { DetectedLanguage, LanguageGranularity } from './language-detection';
+import { VoiceTag, VoicesManagerFind, VoicesManagerVoice } from './types';
+
+/**
+ * Voice list to choose from, such as a `VoicesManager`, `IsomorphicVoicesManager` or
+ * `BrowserVoicesManager`.
+ */
+export interface VoiceFinder {
+  find(filter: VoicesManagerFind): VoicesManagerVoice[];
+}
+
+/**
+ * Preferences for the voices chosen by `voice: 'auto'`.
+ */
+export interface AutoVoiceOptions {
+  /** Voices to choose from (default: the voice list of the service, fetched when streaming starts) */
+  voices?: VoiceFinder;
+  /** Preferred voice gender */
+  gender?: 'Female' | 'Male';
+  /** Preferred voice personalities, e.g. ["Friendly", "Warm"] */
+  personalities?: VoiceTag['VoicePersonalities'];
+  /** Preferred content categories, e.g. ["News"] */
+  categories?: VoiceTag['ContentCategories'];
+  /** Preferred locale for each language, e.g. { en: 'en-GB', pt: 'pt-PT' } */
+  locales?: Record<string, string>;
+  /** Voice for text whose language is not detected or has no voice (default: DEFAULT_VOICE) */
+  fallback?: string;
+  /** Detect the language once for the whole text or for each paragraph (default: "paragraph") */
+  granularity?: LanguageGranularity;
+}
+
+/** Locale of languages whose most common locale is not "<language>-<LANGUAGE>" */
+const DEFAULT_LOCALES: Record<string, string> = {
+  en: 'en-US', ar: 'ar-SA', zh: 'zh-CN', ja: 'ja-JP', ko: 'ko-KR', pt: 'pt-BR', el: 'el-GR',
+  he: 'he-IL', hi: 'hi-IN', bn: 'bn-IN', pa: 'pa-IN', gu: 'gu-IN', ta: 'ta-IN', te: 'te-IN',
+  kn: 'kn-IN', ml: 'ml-IN', mr: 'mr-IN', ne: 'ne-NP', si: 'si-LK', km: 'km-KH', lo: 'lo-LA',
+  my: 'my-MM', ka: 'ka-GE', hy: 'hy-AM', am: 'am-ET', sv: 'sv-SE', da: 'da-DK', nb: 'nb-NO',
+  cs: 'cs-CZ', uk: 'uk-UA', sr: 'sr-RS', kk: 'kk-KZ', fa: 'fa-IR', ur: 'ur-PK', ps: 'ps-AF',
+  vi: 'vi-VN', ca: 'ca-ES', sl: 'sl-SI', et: 'et-EE',
+};
+
+/** Locale of Chinese written in Traditional characters */
+const TRADITIONAL_CHINESE_LOCALE = 'zh-TW';
+
+function preferredLocale(language: DetectedLanguage, options: AutoVoiceOptions): string {
+  return options.locales?.[language.language]
+    ?? (language.script === 'Hant' ? TRADITIONAL_CHINESE_LOCALE : undefined)
+    ?? DEFAULT_LOCALES[language.language]
+    ?? `${language.language}-${language.language.toUpperCase()}`;
+}
+
+/**
+ * Chooses a voice for a language. Voices of the preferred locale of the language are
+ * chosen over the other voices of the language, then voices of the preferred gender, then
+ * the voice with the most preferred personalities and categories; remaining ties go to
+ * the first voice of the list.
+ *
+ * @param voices - Voices to choose from
+ * @param language - Detected language, or undefined to use the fallback voice
+ * @param options - Preferences for the voice
+ * @returns Short name of the voice, e.g. "fr-FR-DeniseNeural"
+ *
+ * @example
+ * ```typescript
+ * const voices = await VoicesManager.create();
+ * const voice = selectVoice(voices, detectLanguage('Où est la gare ?'), { gender: 'Male' });
+ * ```
+ */
+export function selectVoice(
+  voices: VoiceFinder,
+  language: DetectedLanguage | undefined,
+  options: AutoVoiceOptions = {},
+): string {
+  const fallback = options.fallback ?? DEFAULT_VOICE;
+  if (!language) {
+    return fallback;
+  }
+
+  let candidates = voices.find({ Language: language.language });
+  const locale = preferredLocale(language, options);
+  const inLocale = candidates.filter(voice => voice.Locale.toLowerCase() === locale.toLowerCase());
+  if (inLocale.length > 0) {
+    candidates = inLocale;
+  }
+  const ofGender = candidates.filter(voice => voice.Gender === options.gender);
+  if (ofGender.length > 0) {
+    candidates = ofGender;
+  }
+
+  const personalities: string[] = options.personalities ?? [];
+  const categories: string[] = options.categories ?? [];
+  const score = (voice: VoicesManagerVoice) =>
+    voice.VoiceTag.VoicePersonalities.filter(personality => personalities.includes(personality)).length
+    + voice.VoiceTag.ContentCategories.filter(category => categories.includes(category)).length;
+
+  let best: VoicesManagerVoice | undefined;
+  for (const voice of candidates) {
+    if (!best || score(voice) > score(best)) {
+      best = voice;
+    }
+  }
+  return best?.ShortName ?? fallback;
+}
@@ -8,13 +8,35 @@ import {
   browserRemoveIncompatibleCharacters,
 } from './browser-utils';
 import {
+  AbortError,
   NoAudioReceived,
   UnexpectedResponse,
   UnknownResponse,
+  ValueError,
   WebSocketError
 } from "./exceptions";
 import { TTSConfig } from './tts_config';
-import { DEFAULT_VOICE, WSS_URL, SEC_MS_GEC_VERSION } from './constants';
+import { InputType, splitSsml } from './ssml';
+import { SsmlBuilder } from './ssml-builder';
+import { DEFAULT_OUTPUT_FORMAT, DEFAULT_VOICE, WSS_URL, SEC_MS_GEC_VERSION, VOICE_HEADERS, VOICE_LIST_URL } from './constants';
+import {
+  AudioDurationCounter,
+  OutputFormat,
+  createAudioDurationCounter,
+  isExpectedContentType,
+  validateOutputFormat
+} from './output-format';
+import { RetryOptions, RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+import { synthesizeInOrder, validateConcurrency } from './parallel';
+import { ChunkSource, SourceLocator } from './source-map';
+import { ChunkingStrategy, splitTextBySentence, validateChunkingStrategy } from './chunking';
+import { voiceLocale } from './xml';
+import { InputPreprocessor, preprocessText } from './markup';
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { DetectedLanguage, segmentByLanguage } from './language-detection';
+import { AutoVoiceOptions, selectVoice } from './auto-voice';
+import { BrowserVoicesManager } from './browser-voices';
 import { BrowserDRM } from './browser-drm';
 
 // Browser-specific types (avoiding Node.js Buffer dependency)
@@ -24,12 +46,16 @@ export type BrowserTTSChunk = {
   duration?: number;
   offset?: number;
   text?: string;
+  sourceStart?: number;
+  sourceEnd?: number;
 };
 
 export type BrowserCommunicateState = {
   partialText: Uint8Array;
   offsetCompensation: number;
   lastDurationOffset: number;
+  source?: ChunkSource;
+  ttsConfig?: TTSConfig;
   streamWasCalled: boolean;
 };
 
@@ -145,7 +171,7 @@ function browserSplitTextByByteLength(text: string, byteLength: number): Generat
  * Configuration options for the browser Communicate class.
  */
 export interface BrowserCommunicateOptions {
-  /** Voice to use for synthesis (e.g., "en-US-EmmaMultilingualNeural") */
+  /** Voice to use for synthesis (e.g., "en-US-EmmaMultilingualNeural"), or "auto" to choose one for the detected language */
   voice?: string;
   /** Speech rate adjustment (e.g., "+20%", "-10%") */
   rate?: string;
@@ -155,8 +181,63 @@ export interface BrowserCommunicateOptions {
   pitch?: string;
   /** WebSocket connection timeout in milliseconds */
   connectionTimeout?: number;
+  /** Audio output format (default: "audio-24khz-48kbitrate-mono-mp3") */
+  outputFormat?: OutputFormat;
+  /** Emit WordBoundary events (default: true) */
+  wordBoundaryEnabled?: boolean;
+  /** Emit SentenceBoundary events (default: false) */
+  sentenceBoundaryEnabled?: boolean;
+  /** How the input is interpreted: plain text (default) or a complete SSML document */
+  inputType?: InputType;
+  /** How plain text is split into chunks: at the last space (default) or at sentence boundaries */
+  chunking?: ChunkingStrategy;
+  /** Converts plain text input before it is cleaned and escaped: "markdown", "html" or a custom function */
+  preprocess?: InputPreprocessor;
+  /** Pronunciation lexicons for plain text input, in order of precedence; lexicons for other languages are skipped */
+  lexicon?: Lexicon | Lexicon[];
+  /** Reads numbers, dates, currencies and units in plain text input consistently for the voice's language */
+  normalizer?: TextNormalizer;
+  /** Preferences for the voices chosen by voice: 'auto' */
+  autoVoice?: AutoVoiceOptions;
+  /** Signal that cancels synthesis, closing the WebSocket connection */
+  signal?: AbortSignal;
+  /** Retry policy for transient failures; each chunk is attempted once if omitted */
+  retry?: RetryOptions;
+  /** Send all text chunks over one WebSocket connection instead of one per chunk (default: false) */
+  reuseConnection?: boolean;
+  /** Number of text chunks synthesized at once on separate connections (default: 1) */
+  concurrency?: number;
 }
 
+/** WebSocket connection to the service, shared by consecutive turns when reused */
+type Connection = {
+  websocket: WebSocket;
+  secMsGec: string;
+  timeoutId?: number;
+  messageQueue: (BrowserTTSChunk | Error | 'turn.start' | 'turn.end' | 'close')[];
+  /** X-RequestId of the turn whose messages are accepted */
+  requestId: string | null;
+  /** Text chunk and timing state of the current turn */
+  turn: TurnState | null;
+  /** Measures the audio received in the current turn */
+  audioDuration: AudioDurationCounter | null;
+  resolveMessage: (() => void) | null;
+};
+
+/** Text chunk being synthesized and its timing state */
+type TurnState = Omit<BrowserCommunicateState, 'streamWasCalled'>;
+
+/** Text chunks spoken by one voice */
+type VoiceSegment = {
+  texts: Generator<Uint8Array>;
+  ttsConfig: TTSConfig;
+  /** Language the voice is chosen for (voice: 'auto') */
+  language?: DetectedLanguage;
+};
+
+/** Holds the connection used by consecutive turns */
+type ConnectionSlot = { connection: Connection | null };
+
 /**
  * Browser-specific Communicate class that uses only browser-native APIs.
  * Uses native WebSocket and Web Crypto API, avoiding any Node.js dependencies.
@@ -176,8 +257,21 @@ export interface BrowserCommunicateOptions {
  */
 export class BrowserCommunicate {
   private readonly ttsConfig: TTSConfig;
-  private readonly texts: Generator<Uint8Array>;
+  private readonly segments: VoiceSegment[];
+  private readonly autoVoice?: AutoVoiceOptions;
+  private readonly sourceLocator?: SourceLocator;
   private readonly connectionTimeout?: number;
+  private readonly outputFormat: OutputFormat;
+  private readonly wordBoundaryEnabled: boolean;
+  private readonly sentenceBoundaryEnabled: boolean;
+  private readonly inputType: InputType;
+  private readonly lexicons: Lexicon[];
+  private readonly normalizer?: TextNormalizer;
+  private readonly signal?: AbortSignal;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly reuseConnection: boolean;
+  private readonly concurrency: number;
+  private readonly slot: ConnectionSlot = { connection: null };
 
   private state: BrowserCommunicateState = {
     partialText: BrowserBuffer.from(''),
@@ -193,8 +287,10 @@ export class BrowserCommunicate {
    * @param options - Configuration options for synthesis
    */
   constructor(text: string, options: BrowserCommunicateOptions = {}) {
+    const autoVoice = options.voice === 'auto';
     this.ttsConfig = new TTSConfig({
-      voice: options.voice || DEFAULT_VOICE,
+      // Text whose language is not detected is spoken by the fallback voice
+      voice: autoVoice ? options.autoVoice?.fallback ?? DEFAULT_VOICE : options.voice || DEFAULT_VOICE,
       rate: options.rate,
       volume: options.volume,
       pitch: options.pitch,
@@ -204,21 +300,84 @@ export class BrowserCommunicate {
       throw new TypeError('text must be a string');
     }
 
-    this.texts = browserSplitTextByByteLength(
-      browserEscape(browserRemoveIncompatibleCharacters(text)),
-      // browserCalcMaxMesgSize(this.ttsConfig.voice, this.ttsConfig.rate, this.ttsConfig.volume, this.ttsConfig.pitch),
-      4096,
-    );
+    this.inputType = options.inputType ?? 'text';
+    this.lexicons = [options.lexicon ?? []].flat();
+    this.normalizer = options.normalizer;
+    const chunking = validateChunkingStrategy(options.chunking ?? 'bytes');
+    const plainText = this.inputType === 'ssml' ? text : preprocessText(text, options.preprocess);
+    const split = (text: string, locale?: string): Generator<Uint8Array> => {
+      if (chunking === 'sentence') {
+        const chunks = splitTextBySentence(browserRemoveIncompatibleCharacters(text), 4096, locale);
+        return (function* () {
+          for (const chunk of chunks) {
+            yield new TextEncoder().encode(chunk);
+          }
+        })();
+      }
+      return browserSplitTextByByteLength(
+        browserEscape(browserRemoveIncompatibleCharacters(text)),
+        // browserCalcMaxMesgSize(this.ttsConfig.voice, this.ttsConfig.rate, this.ttsConfig.volume, this.ttsConfig.pitch),
+        4096,
+      );
+    };
+
+    // Offsets in preprocessed text would not point into the text passed in
+    if (this.inputType !== 'ssml' && !options.preprocess) {
+      this.sourceLocator = new SourceLocator(plainText, browserRemoveIncompatibleCharacters);
+    }
+    if (this.inputType === 'ssml') {
+      if (autoVoice) {
+        throw new ValueError("voice 'auto' is only supported for plain text input");
+      }
+      const chunks = splitSsml(text, 4096);
+      this.segments = [{
+        texts: (function* () {
+          for (const chunk of chunks) {
+            yield new TextEncoder().encode(chunk);
+          }
+        })(),
+        ttsConfig: this.ttsConfig,
+      }];
+    } else if (autoVoice) {
+      this.autoVoice = options.autoVoice ?? {};
+      this.segments = segmentByLanguage(plainText, this.autoVoice.granularity).map(segment => ({
+        texts: split(segment.text, segment.language?.language),
+        ttsConfig: this.ttsConfig,
+        language: segment.language,
+      }));
+    } else {
+      this.segments = [{ texts: split(plainText, voiceLocale(this.ttsConfig.voice)), ttsConfig: this.ttsConfig }];
+    }
 
     this.connectionTimeout = options.connectionTimeout;
+    this.outputFormat = validateOutputFormat(options.outputFormat ?? DEFAULT_OUTPUT_FORMAT);
+    this.wordBoundaryEnabled = options.wordBoundaryEnabled ?? true;
+    this.sentenceBoundaryEnabled = options.sentenceBoundaryEnabled ?? false;
+    this.signal = options.signal;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.reuseConnection = options.reuseConnection ?? false;
+    this.concurrency = validateConcurrency(options.concurrency ?? 1);
+  }
+
+  /**
+   * Creates a BrowserCommunicate instance that synthesizes a complete SSML document.
+   * Shorthand for passing `inputType: 'ssml'`.
+   * 
+   * @param ssml - SSML document with a `<speak>` root and at least one `<voice>` element,
+   *   or an SsmlBuilder
+   * @param options - Configuration options for synthesis
+   * @throws {ValueError} If the SSML document is not valid
+   */
+  static fromSsml(ssml: string | SsmlBuilder, options: Omit<BrowserCommunicateOptions, 'inputType'> = {}): BrowserCommunicate {
+    return new BrowserCommunicate(ssml.toString(), { ...options, inputType: 'ssml' });
   }
 
-  private parseMetadata(data: Uint8Array): BrowserTTSChunk {
+  private parseMetadata(data: Uint8Array, offsetCompensation: number): BrowserTTSChunk {
     const metadata = JSON.parse(new TextDecoder().decode(data));
     for (const metaObj of metadata['Metadata']) {
       const metaType = metaObj['Type'];
       if (metaType === 'WordBoundary' || metaType === 'SentenceBoundary') {
-        const currentOffset = metaObj['Data']['Offset'] + this.state.offsetCompensation;
+        const currentOffset = metaObj['Data']['Offset'] + offsetCompensation;
         const currentDuration = metaObj['Data']['Duration'];
         return {
           type: metaType,
@@ -235,190 +394,396 @@ export class BrowserCommunicate {
     throw new UnexpectedResponse('No WordBoundary metadata found');
   }
 
-  private async * _stream(): AsyncGenerator<BrowserTTSChunk, void, unknown> {
-    const url = `${WSS_URL}&Sec-MS-GEC=${await BrowserDRM.generateSecMsGec()}&Sec-MS-GEC-Version=${SEC_MS_GEC_VERSION}&ConnectionId=${browserConnectId()}`;
+  private async connect(): Promise<Connection> {
+    const secMsGec = await BrowserDRM.generateSecMsGec();
+    const url = `${WSS_URL}&Sec-MS-GEC=${secMsGec}&Sec-MS-GEC-Version=${SEC_MS_GEC_VERSION}&ConnectionId=${browserConnectId()}`;
 
     const websocket = new WebSocket(url);
-    const messageQueue: (BrowserTTSChunk | Error | 'close')[] = [];
-    let resolveMessage: (() => void) | null = null;
+    // Blobs are converted asynchronously and could arrive after turn.end
+    websocket.binaryType = 'arraybuffer';
+    const connection: Connection = {
+      websocket,
+      secMsGec,
+      messageQueue: [],
+      requestId: null,
+      turn: null,
+      audioDuration: null,
+      resolveMessage: null,
+    };
+    const push = (message: Connection['messageQueue'][number]) => {
+      connection.messageQueue.push(message);
+      if (connection.resolveMessage) connection.resolveMessage();
+    };
+    const clearConnectionTimeout = () => {
+      if (connection.timeoutId) {
+        window.clearTimeout(connection.timeoutId);
+        connection.timeoutId = undefined;
+      }
+    };
+    // Messages of an earlier turn on this connection are dropped
+    const isCurrentTurn = (headers: { [key: string]: string }) =>
+      connection.turn !== null && (!headers['X-RequestId'] || headers['X-RequestId'] === connection.requestId);
 
     // Set connection timeout if specified
-    let timeoutId: number | undefined;
     if (this.connectionTimeout) {
-      timeoutId = window.setTimeout(() => {
+      connection.timeoutId = window.setTimeout(() => {
         websocket.close();
-        messageQueue.push(new WebSocketError('Connection timeout'));
-        if (resolveMessage) resolveMessage();
+        push(new WebSocketError('Connection timeout'));
       }, this.connectionTimeout);
     }
 
+    const processBinaryData = (bufferData: Uint8Array) => {
+      if (bufferData.length < 2) {
+        push(new UnexpectedResponse('We received a binary message, but it is missing the header length.'));
+      } else {
+        const [headers, audioData] = browserGetHeadersAndDataFromBinary(bufferData);
+        if (!isCurrentTurn(headers)) {
+          return;
+        }
+
+        if (headers['Path'] !== 'audio') {
+          push(new UnexpectedResponse('Received binary message, but the path is not audio.'));
+        } else {
+          const contentType = headers['Content-Type'];
+          if (!isExpectedContentType(this.outputFormat, contentType)) {
+            if (audioData.length > 0) {
+              push(new UnexpectedResponse('Received binary message, but with an unexpected Content-Type.'));
+            }
+          } else if (audioData.length === 0) {
+            push(new UnexpectedResponse('Received binary message, but it is missing the audio data.'));
+          } else {
+            connection.audioDuration?.push(audioData);
+            push({ type: 'audio', data: audioData });
+          }
+        }
+      }
+    };
+
     websocket.onmessage = (event: MessageEvent) => {
       // Clear timeout on first message
-      if (timeoutId) {
-        window.clearTimeout(timeoutId);
-        timeoutId = undefined;
-      }
+      clearConnectionTimeout();
 
       const data = event.data;
-      const isBinary = data instanceof ArrayBuffer || data instanceof Blob;
 
       if (typeof data === 'string') {
         // Text message
         const [headers, parsedData] = browserGetHeadersAndDataFromText(BrowserBuffer.from(data));
+        if (!isCurrentTurn(headers)) {
+          return;
+        }
 
         const path = headers['Path'];
         if (path === 'audio.metadata') {
           try {
-            const parsedMetadata = this.parseMetadata(parsedData);
-            this.state.lastDurationOffset = parsedMetadata.offset! + parsedMetadata.duration!;
-            messageQueue.push(parsedMetadata);
+            const turn = connection.turn!;
+            const parsedMetadata = this.parseMetadata(parsedData, turn.offsetCompensation);
+            // Sentence and word boundaries overlap, so keep the furthest end seen
+            turn.lastDurationOffset = Math.max(
+              turn.lastDurationOffset,
+              parsedMetadata.offset! + parsedMetadata.duration!,
+            );
+            push({
+              ...parsedMetadata,
+              ...turn.source?.locate(parsedMetadata.type, parsedMetadata.text!),
+            });
           } catch (e) {
-            messageQueue.push(e as Error);
+            push(e as Error);
           }
         } else if (path === 'turn.end') {
-          this.state.offsetCompensation = this.state.lastDurationOffset;
-          // Add average padding typically added by the service to the end of the audio
-          this.state.offsetCompensation += 8_750_000;
-          websocket.close();
-        } else if (path !== 'response' && path !== 'turn.start') {
-          messageQueue.push(new UnknownResponse(`Unknown path received: ${path}`));
-        }
-      } else if (data instanceof ArrayBuffer) {
-        // Binary message
-        const bufferData = BrowserBuffer.from(data);
-        if (bufferData.length < 2) {
-          messageQueue.push(new UnexpectedResponse('We received a binary message, but it is missing the header length.'));
-        } else {
-          const [headers, audioData] = browserGetHeadersAndDataFromBinary(bufferData);
-
-          if (headers['Path'] !== 'audio') {
-            messageQueue.push(new UnexpectedResponse('Received binary message, but the path is not audio.'));
+          const turn = connection.turn!;
+          const audioDuration = connection.audioDuration?.duration;
+          if (audioDuration) {
+            // The next turn starts exactly where the audio of this one ends
+            turn.offsetCompensation += audioDuration;
           } else {
-            const contentType = headers['Content-Type'];
-            if (contentType !== 'audio/mpeg') {
-              if (audioData.length > 0) {
-                messageQueue.push(new UnexpectedResponse('Received binary message, but with an unexpected Content-Type.'));
-              }
-            } else if (audioData.length === 0) {
-              messageQueue.push(new UnexpectedResponse('Received binary message, but it is missing the audio data.'));
-            } else {
-              messageQueue.push({ type: 'audio', data: audioData });
-            }
+            turn.offsetCompensation = turn.lastDurationOffset;
+            // Add average padding typically added by the service to the end of the audio
+            turn.offsetCompensation += 8_750_000;
           }
+          push('turn.end');
+        } else if (path === 'turn.start') {
+          push('turn.start');
+        } else if (path !== 'response') {
+          push(new UnknownResponse(`Unknown path received: ${path}`));
         }
+      } else if (data instanceof ArrayBuffer) {
+        // Binary message
+        processBinaryData(BrowserBuffer.from(data));
       } else if (data instanceof Blob) {
         // Handle Blob data (convert to ArrayBuffer first)
         data.arrayBuffer().then(arrayBuffer => {
-          const bufferData = BrowserBuffer.from(arrayBuffer);
-          if (bufferData.length < 2) {
-            messageQueue.push(new UnexpectedResponse('We received a binary message, but it is missing the header length.'));
-          } else {
-            const [headers, audioData] = browserGetHeadersAndDataFromBinary(bufferData);
-
-            if (headers['Path'] !== 'audio') {
-              messageQueue.push(new UnexpectedResponse('Received binary message, but the path is not audio.'));
-            } else {
-              const contentType = headers['Content-Type'];
-              if (contentType !== 'audio/mpeg') {
-                if (audioData.length > 0) {
-                  messageQueue.push(new UnexpectedResponse('Received binary message, but with an unexpected Content-Type.'));
-                }
-              } else if (audioData.length === 0) {
-                messageQueue.push(new UnexpectedResponse('Received binary message, but it is missing the audio data.'));
-              } else {
-                messageQueue.push({ type: 'audio', data: audioData });
-              }
-            }
-          }
-          if (resolveMessage) resolveMessage();
+          processBinaryData(BrowserBuffer.from(arrayBuffer));
         });
       }
-
-      if (resolveMessage) resolveMessage();
     };
 
     websocket.onerror = (error: Event) => {
-      if (timeoutId) {
-        window.clearTimeout(timeoutId);
-        timeoutId = undefined;
-      }
-      messageQueue.push(new WebSocketError('WebSocket error occurred'));
-      if (resolveMessage) resolveMessage();
+      clearConnectionTimeout();
+      push(new WebSocketError('WebSocket error occurred'));
     };
 
     websocket.onclose = () => {
-      if (timeoutId) {
-        window.clearTimeout(timeoutId);
-        timeoutId = undefined;
-      }
-      messageQueue.push('close');
-      if (resolveMessage) resolveMessage();
+      clearConnectionTimeout();
+      push('close');
     };
 
-    await new Promise<void>((resolve, reject) => {
-      websocket.onopen = () => {
-        if (timeoutId) {
-          window.clearTimeout(timeoutId);
-          timeoutId = undefined;
-        }
-        resolve();
-      };
-
-      // Set up a timeout for connection establishment
-      if (this.connectionTimeout) {
-        setTimeout(() => {
-          if (websocket.readyState === WebSocket.CONNECTING) {
-            websocket.close();
-            reject(new WebSocketError('Connection timeout'));
-          }
-        }, this.connectionTimeout);
+    return connection;
+  }
+
+  private closeConnection(slot: ConnectionSlot) {
+    const connection = slot.connection;
+    if (!connection) {
+      return;
+    }
+    slot.connection = null;
+    const { websocket } = connection;
+    if (connection.timeoutId) {
+      window.clearTimeout(connection.timeoutId);
+      connection.timeoutId = undefined;
+    }
+    websocket.onopen = null;
+    websocket.onmessage = null;
+    websocket.onerror = null;
+    websocket.onclose = null;
+    if (websocket.readyState === WebSocket.CONNECTING || websocket.readyState === WebSocket.OPEN) {
+      websocket.close();
+    }
+  }
+
+  private async * _stream(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<BrowserTTSChunk, void, unknown> {
+    const reused = slot.connection !== null && slot.connection.websocket.readyState === WebSocket.OPEN;
+    if (!reused) {
+      // The server may have closed an idle connection; start a new one
+      this.closeConnection(slot);
+      slot.connection = await this.connect();
+    }
+    const connection = slot.connection!;
+    const { websocket, messageQueue } = connection;
+    const requestId = browserConnectId();
+    connection.requestId = requestId;
+    connection.turn = turn;
+    connection.audioDuration = createAudioDurationCounter(this.outputFormat);
+
+    const onAbort = () => {
+      messageQueue.push(new AbortError('Synthesis was aborted.'));
+      if (connection.resolveMessage) connection.resolveMessage();
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    let turnCompleted = false;
+    let reconnect = false;
+    try {
+      // An abort while connecting fired before the listener was attached
+      if (signal?.aborted) {
+        throw new AbortError('Synthesis was aborted.');
       }
-    });
 
-    websocket.send(
-      `X-Timestamp:${browserDateToString()}\r\n`
-      + 'Content-Type:application/json; charset=utf-8\r\n'
-      + 'Path:speech.config\r\n\r\n'
-      + '{"context":{"synthesis":{"audio":{"metadataoptions":{'
-      + '"sentenceBoundaryEnabled":"false","wordBoundaryEnabled":"true"},'
-      + '"outputFormat":"audio-24khz-48kbitrate-mono-mp3"'
-      + '}}}}\r\n'
-    );
+      let opened = reused;
+      if (!reused) {
+        // Resolves false if the connection fails or synthesis is aborted before it opens;
+        // the reason is then taken from the message queue below.
+        opened = await new Promise<boolean>(resolve => {
+          connection.resolveMessage = () => resolve(false);
+          websocket.onopen = () => {
+            if (connection.timeoutId) {
+              window.clearTimeout(connection.timeoutId);
+              connection.timeoutId = undefined;
+            }
+            resolve(true);
+          };
+        });
+        connection.resolveMessage = null;
 
-    websocket.send(
-      browserSsmlHeadersPlusData(
-        browserConnectId(),
-        browserDateToString(),
-        browserMkssml(this.ttsConfig.voice, this.ttsConfig.rate, this.ttsConfig.volume, this.ttsConfig.pitch, new TextDecoder().decode(this.state.partialText)),
-      )
-    );
+        if (!opened && !signal?.aborted) {
+          const [failure] = messageQueue;
+          if (failure instanceof WebSocketError && failure.status === undefined) {
+            messageQueue[0] = await this.checkHandshakeRejection(connection.secMsGec) ?? failure;
+          }
+        }
+
+        if (opened && !signal?.aborted) {
+          websocket.send(
+            `X-Timestamp:${browserDateToString()}\r\n`
+            + 'Content-Type:application/json; charset=utf-8\r\n'
+            + 'Path:speech.config\r\n\r\n'
+            + '{"context":{"synthesis":{"audio":{"metadataoptions":{'
+            + `"sentenceBoundaryEnabled":"${this.sentenceBoundaryEnabled}",`
+            + `"wordBoundaryEnabled":"${this.wordBoundaryEnabled}"},`
+            + `"outputFormat":"${this.outputFormat}"`
+            + '}}}}\r\n'
+          );
+        }
+      }
 
-    let audioWasReceived = false;
-    while (true) {
-      if (messageQueue.length > 0) {
-        const message = messageQueue.shift()!;
-        if (message === 'close') {
-          if (!audioWasReceived) {
-            throw new NoAudioReceived('No audio was received.');
+      if (opened && !signal?.aborted) {
+        const ttsConfig = turn.ttsConfig ?? this.ttsConfig;
+        websocket.send(
+          browserSsmlHeadersPlusData(
+            requestId,
+            browserDateToString(),
+            this.inputType === 'ssml'
+              ? new TextDecoder().decode(turn.partialText)
+              : browserMkssml(ttsConfig.voice, ttsConfig.rate, ttsConfig.volume, ttsConfig.pitch, new TextDecoder().decode(turn.partialText), this.lexicons, this.normalizer),
+          )
+        );
+      }
+
+      let audioWasReceived = false;
+      let turnStarted = false;
+      while (true) {
+        if (messageQueue.length > 0) {
+          const message = messageQueue.shift()!;
+          if (message === 'turn.start') {
+            turnStarted = true;
+          } else if (message === 'turn.end') {
+            if (!audioWasReceived) {
+              throw new NoAudioReceived('No audio was received.');
+            }
+            turnCompleted = true;
+            break;
+          } else if (message === 'close') {
+            if (reused && !turnStarted) {
+              // The server closed the reused connection before answering; retry on a new one
+              reconnect = true;
+              break;
+            }
+            if (!audioWasReceived) {
+              throw new NoAudioReceived('No audio was received.');
+            }
+            throw new WebSocketError('Connection closed before the end of the turn.');
+          } else if (message instanceof Error) {
+            throw message;
+          } else {
+            if (message.type === 'audio') audioWasReceived = true;
+            yield message;
           }
-          break;
-        } else if (message instanceof Error) {
-          throw message;
         } else {
-          if (message.type === 'audio') audioWasReceived = true;
-          yield message;
+          // Use a more responsive wait mechanism
+          await new Promise<void>(resolve => {
+            connection.resolveMessage = resolve;
+            // Add a small timeout to prevent indefinite waiting
+            setTimeout(resolve, 50);
+          });
+          connection.resolveMessage = null;
         }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!turnCompleted || !this.reuseConnection) {
+        this.closeConnection(slot);
+      }
+    }
+
+    if (reconnect) {
+      yield* this._stream(turn, slot, signal);
+    }
+  }
+
+  /**
+   * Native WebSockets do not expose a rejected handshake, so the token is checked
+   * against the voice list endpoint to learn whether the service answers 403.
+   * The `Date` header is only present if the browser lets the page read it.
+   */
+  private async checkHandshakeRejection(secMsGec: string): Promise<WebSocketError | null> {
+    try {
+      const response = await fetch(
+        `${VOICE_LIST_URL}&Sec-MS-GEC=${secMsGec}&Sec-MS-GEC-Version=${SEC_MS_GEC_VERSION}`,
+        { headers: VOICE_HEADERS },
+      );
+      await response.body?.cancel();
+      if (response.status !== 403) {
+        return null;
+      }
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      return new WebSocketError(`Unexpected server response: ${response.status}`, response.status, headers);
+    } catch {
+      return null;
+    }
+  }
+
+  private streamWithRetry(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<BrowserTTSChunk, void, unknown> {
+    // Timing state before the chunk, restored so a retried chunk keeps offsets monotonic
+    const { offsetCompensation, lastDurationOffset } = turn;
+    return withRetry(
+      () => this._stream(turn, slot, signal),
+      this.retryPolicy,
+      () => {
+        turn.offsetCompensation = offsetCompensation;
+        turn.lastDurationOffset = lastDurationOffset;
+        turn.source?.reset();
+      },
+      signal,
+    );
+  }
+
+  private async * synthesizeChunk(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<BrowserTTSChunk, void, unknown> {
+    try {
+      yield* this.streamWithRetry(turn, slot, signal);
+    } catch (e) {
+      // The handshake is rejected with 403 when the local clock is off
+      if (e instanceof WebSocketError && e.status === 403) {
+        BrowserDRM.handleClientResponseError({ status: e.status, headers: e.headers ?? {} });
+        yield* this.streamWithRetry(turn, slot, signal);
       } else {
-        // Use a more responsive wait mechanism
-        await new Promise<void>(resolve => {
-          resolveMessage = resolve;
-          // Add a small timeout to prevent indefinite waiting
-          setTimeout(resolve, 50);
-        });
+        throw e;
       }
     }
   }
 
+  /**
+   * Chooses the voice of each segment in a detected language (voice: 'auto'), fetching
+   * the voice list unless voices are given in the options.
+   */
+  private async chooseVoices(autoVoice: AutoVoiceOptions): Promise<void> {
+    if (!this.segments.some(segment => segment.language)) {
+      return;
+    }
+    const voices = autoVoice.voices ?? await BrowserVoicesManager.create();
+    for (const segment of this.segments) {
+      segment.ttsConfig = new TTSConfig({
+        voice: selectVoice(voices, segment.language, { ...autoVoice, fallback: this.ttsConfig.voice }),
+        rate: this.ttsConfig.rate,
+        volume: this.ttsConfig.volume,
+        pitch: this.ttsConfig.pitch,
+      });
+    }
+  }
+
+  /** Text chunks in order, with the voice that speaks them */
+  private * chunks(): Generator<[Uint8Array, TTSConfig]> {
+    for (const segment of this.segments) {
+      for (const text of segment.texts) {
+        yield [text, segment.ttsConfig];
+      }
+    }
+  }
+
+  private async * streamConcurrently(): AsyncGenerator<BrowserTTSChunk, void, unknown> {
+    // Each worker has its own connection, reused across its turns when enabled
+    const slots: ConnectionSlot[] = [];
+    try {
+      yield* synthesizeInOrder(this.chunks(), this.concurrency, ([partialText, ttsConfig], signal, worker) => {
+        const turn: TurnState = {
+          partialText,
+          offsetCompensation: 0,
+          lastDurationOffset: 0,
+          source: this.sourceLocator?.next(new TextDecoder().decode(partialText)),
+          ttsConfig,
+        };
+        slots[worker] ??= { connection: null };
+        return {
+          chunks: this.synthesizeChunk(turn, slots[worker], signal),
+          duration: () => turn.offsetCompensation,
+        };
+      }, this.signal);
+    } finally {
+      slots.forEach(slot => this.closeConnection(slot));
+    }
+  }
+
   /**
    * Streams text-to-speech synthesis results using native browser WebSocket.
    * Uses only browser-native APIs, avoiding Node.js dependencies.
@@ -427,6 +792,7 @@ export class BrowserCommunicate {
    * @throws {Error} If called more than once
    * @throws {NoAudioReceived} If no audio data is received
    * @throws {WebSocketError} If WebSocket connection fails
+   * @throws {AbortError} If the signal passed in the options is aborted
    */
   async * stream(): AsyncGenerator<BrowserTTSChunk, void, unknown> {
     if (this.state.streamWasCalled) {
@@ -434,11 +800,27 @@ export class BrowserCommunicate {
     }
     this.state.streamWasCalled = true;
 
-    for (const partialText of this.texts) {
-      this.state.partialText = partialText;
-      for await (const message of this._stream()) {
-        yield message;
+    if (this.autoVoice) {
+      await this.chooseVoices(this.autoVoice);
+    }
+
+    if (this.concurrency > 1) {
+      yield* this.streamConcurrently();
+      return;
+    }
+
+    try {
+      for (const [partialText, ttsConfig] of this.chunks()) {
+        if (this.signal?.aborted) {
+          throw new AbortError('Synthesis was aborted.');
+        }
+        this.state.partialText = partialText;
+        this.state.ttsConfig = ttsConfig;
+        this.state.source = this.sourceLocator?.next(new TextDecoder().decode(partialText));
+        yield* this.synthesizeChunk(this.state, this.slot, this.signal);
       }
+    } finally {
+      this.closeConnection(this.slot);
     }
   }
 } 
\ No newline at end of file
@@ -3,6 +3,10 @@
  * Provides browser-native implementations of UUID generation and XML escaping.
  */
 
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { plainTextSsml } from './ssml';
+
 /**
  * Generates a UUID v4 string without hyphens using browser's crypto API.
  * @returns UUID string with hyphens removed
@@ -77,18 +81,12 @@ export function browserDateToString(): string {
  * @param volume - Speech volume (e.g., "+0%") 
  * @param pitch - Speech pitch (e.g., "+0Hz")
  * @param escapedText - Text content (should be XML-escaped)
+ * @param lexicons - Pronunciation lexicons applied to the text for the voice's language
+ * @param normalizer - Normalizes numbers, dates and units in the text outside lexicon elements
  * @returns Complete SSML document string
  */
-export function browserMkssml(voice: string, rate: string, volume: string, pitch: string, escapedText: string): string {
-  return (
-    "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
-    + `<voice name='${voice}'>`
-    + `<prosody pitch='${pitch}' rate='${rate}' volume='${volume}'>`
-    + `${escapedText}`
-    + "</prosody>"
-    + "</voice>"
-    + "</speak>"
-  );
+export function browserMkssml(voice: string, rate: string, volume: string, pitch: string, escapedText: string, lexicons: Lexicon[] = [], normalizer?: TextNormalizer): string {
+  return plainTextSsml({ voice, rate, volume, pitch }, escapedText, lexicons, normalizer);
 }
 
 /**
@@ -5,6 +5,7 @@
 
 import { WSS_URL, SEC_MS_GEC_VERSION } from './constants';
 import { BrowserDRM } from './browser-drm';
+import { formatTimestamp } from './timestamp';
 
 /**
  * Options for controlling the voice prosody (rate, pitch, volume).
@@ -269,26 +270,6 @@ export class EdgeTTSBrowser {
 // Subtitle Generation Utilities (Browser Compatible)
 // ==================================================================================
 
-/**
- * Formats a time value from 100-nanosecond units into a VTT or SRT timestamp string.
- */
-function formatTimestamp(timeIn100ns: number, format: 'vtt' | 'srt'): string {
-  const totalSeconds = Math.floor(timeIn100ns / 10000000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  const milliseconds = Math.floor((timeIn100ns % 10000000) / 10000);
-  const separator = format === 'vtt' ? '.' : ',';
-  return `${padNumber(hours)}:${padNumber(minutes)}:${padNumber(seconds)}${separator}${padNumber(milliseconds, 3)}`;
-}
-
-/**
- * Pads a number with leading zeros to a specified length.
- */
-function padNumber(num: number, length = 2): string {
-  return num.toString().padStart(length, '0');
-}
-
 /**
  * Creates a subtitle file content in VTT (WebVTT) format.
  */
@@ -0,0 +1,214 @@
+/**
+ * Sentence-aware splitting of plain text into chunks that are synthesized as separate turns.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { escape } from "./xml";
+
+/**
+ * How plain text is split into chunks of at most 4096 bytes.
+ * - `bytes`: at the last newline or space before the limit (default)
+ * - `sentence`: at the last paragraph, sentence or clause boundary before the limit, in that
+ *   order of preference, so each turn ends at a natural pause
+ */
+export type ChunkingStrategy = 'bytes' | 'sentence';
+
+// Intl.Segmenter is not part of the ES2020 library
+type Granularity = 'grapheme' | 'word' | 'sentence';
+interface Segmenter {
+  segment(text: string): Iterable<{ segment: string }>;
+}
+type SegmenterConstructor = new (locale?: string, options?: { granularity: Granularity }) => Segmenter;
+
+/** Strength of the boundary after a piece of text; lower is preferred */
+const PARAGRAPH = 0;
+const SENTENCE = 1;
+const CLAUSE = 2;
+const WORD = 3;
+const CHARACTER = 4;
+
+/** A piece of text that is never split, and the strength of the boundary after it */
+type Atom = { text: string; bytes: number; level: number };
+
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/g;
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+|[。！？]+["'”’」』)）\]]*\s*/g;
+const CLAUSE_END = /[,;:]+["'”’)\]]*\s+|[，、；：]+\s*/g;
+const CJK_CHARACTER = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/;
+
+/**
+ * Returns the validated chunking strategy.
+ * @throws {ValueError} If the strategy is unknown
+ */
+export function validateChunkingStrategy(chunking: string): ChunkingStrategy {
+  if (chunking !== 'bytes' && chunking !== 'sentence') {
+    throw new ValueError(`Invalid chunking '${chunking}'. Must be 'bytes' or 'sentence'.`);
+  }
+  return chunking;
+}
+
+function createSegmenter(locale: string | undefined, granularity: Granularity): Segmenter | null {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+  if (!Segmenter) {
+    return null;
+  }
+  try {
+    return new Segmenter(locale, { granularity });
+  } catch {
+    // Invalid locale
+    return new Segmenter(undefined, { granularity });
+  }
+}
+
+/** Splits text after each match of a pattern; the parts concatenate to the text */
+function splitAfter(text: string, pattern: RegExp): string[] {
+  const parts: string[] = [];
+  let position = 0;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index! + match[0].length;
+    if (end > position && end < text.length) {
+      parts.push(text.slice(position, end));
+      position = end;
+    }
+  }
+  parts.push(text.slice(position));
+  return parts;
+}
+
+function xmlByteLength(text: string): number {
+  return new TextEncoder().encode(escape(text)).length;
+}
+
+/**
+ * Splits text into pieces that are never split, each with the strength of the boundary
+ * after it. Pieces are words, or characters of words longer than the limit.
+ */
+class Atomizer {
+  private readonly sentences: Segmenter | null;
+  private readonly words: Segmenter | null;
+  private readonly graphemes: Segmenter | null;
+  /** Thai and Lao separate phrases and sentences with spaces instead of punctuation */
+  private readonly spaceSeparatesClauses: boolean;
+
+  constructor(locale: string | undefined, private readonly byteLength: number) {
+    this.sentences = createSegmenter(locale, 'sentence');
+    this.words = createSegmenter(locale, 'word');
+    this.graphemes = createSegmenter(locale, 'grapheme');
+    this.spaceSeparatesClauses = /^(?:th|lo)(?:-|$)/i.test(locale ?? '');
+  }
+
+  atoms(text: string): Atom[] {
+    const atoms: Atom[] = [];
+    if (!text) {
+      return atoms;
+    }
+    for (const paragraph of splitAfter(text, PARAGRAPH_BREAK)) {
+      for (const sentence of this.splitSentences(paragraph)) {
+        for (const clause of this.splitClauses(sentence)) {
+          for (const word of this.splitWords(clause)) {
+            const bytes = xmlByteLength(word);
+            if (bytes <= this.byteLength) {
+              atoms.push({ text: word, bytes, level: WORD });
+            } else {
+              for (const character of this.splitCharacters(word)) {
+                atoms.push({ text: character, bytes: xmlByteLength(character), level: CHARACTER });
+              }
+            }
+          }
+          atoms[atoms.length - 1].level = CLAUSE;
+        }
+        atoms[atoms.length - 1].level = SENTENCE;
+      }
+      atoms[atoms.length - 1].level = PARAGRAPH;
+    }
+    return atoms;
+  }
+
+  private splitSentences(text: string): string[] {
+    if (!this.sentences) {
+      return splitAfter(text, SENTENCE_END);
+    }
+    const sentences: string[] = [];
+    for (const { segment } of this.sentences.segment(text)) {
+      // Keep whitespace-only segments with the previous sentence
+      if (sentences.length > 0 && !segment.trim()) {
+        sentences[sentences.length - 1] += segment;
+      } else {
+        sentences.push(segment);
+      }
+    }
+    return sentences;
+  }
+
+  private splitClauses(text: string): string[] {
+    return splitAfter(text, this.spaceSeparatesClauses ? /\s+/g : CLAUSE_END);
+  }
+
+  private splitWords(text: string): string[] {
+    if (this.words) {
+      return Array.from(this.words.segment(text), ({ segment }) => segment);
+    }
+    // Without a segmenter, CJK text is split into characters
+    return text.split(/(\s+)/).filter(Boolean).flatMap(word =>
+      CJK_CHARACTER.test(word) ? splitAfter(word, new RegExp(CJK_CHARACTER.source, 'g')) : [word]
+    );
+  }
+
+  private splitCharacters(text: string): string[] {
+    return this.graphemes
+      ? Array.from(this.graphemes.segment(text), ({ segment }) => segment)
+      : Array.from(text);
+  }
+}
+
+/**
+ * Splits plain text into XML-escaped chunks of at most `byteLength` bytes. A chunk ends at
+ * the last paragraph break before the limit; without one, at the last sentence end, then
+ * the last clause punctuation, then the last word. Sentences and words are found with
+ * `Intl.Segmenter` where available, which also segments CJK and Thai text without spaces.
+ *
+ * @param text - Plain text, not XML-escaped
+ * @param byteLength - Maximum byte length of an escaped chunk
+ * @param locale - Language of the text, e.g. "th-TH"
+ * @returns Escaped and trimmed chunks
+ * @throws {ValueError} If byteLength is too small for a single character
+ */
+export function splitTextBySentence(text: string, byteLength: number, locale?: string): string[] {
+  if (byteLength <= 0) {
+    throw new ValueError("byteLength must be greater than 0");
+  }
+
+  const atoms = new Atomizer(locale, byteLength).atoms(text);
+  const chunks: string[] = [];
+  const emit = (from: number, to: number) => {
+    const chunk = atoms.slice(from, to).map(atom => atom.text).join('').trim();
+    if (chunk) {
+      chunks.push(escape(chunk));
+    }
+  };
+
+  let start = 0;
+  let bytes = 0;
+  for (let i = 0; i < atoms.length; i++) {
+    if (atoms[i].bytes > byteLength) {
+      throw new ValueError("Maximum byte length is too small for the text");
+    }
+    while (bytes + atoms[i].bytes > byteLength) {
+      // End the chunk after the last of the strongest boundaries
+      let end = start;
+      for (let j = start + 1; j < i; j++) {
+        if (atoms[j].level <= atoms[end].level) {
+          end = j;
+        }
+      }
+      emit(start, end + 1);
+      for (let j = start; j <= end; j++) {
+        bytes -= atoms[j].bytes;
+      }
+      start = end + 1;
+    }
+    bytes += atoms[i].bytes;
+  }
+  emit(start, atoms.length);
+  return chunks;
+}
@@ -11,18 +11,39 @@ import {
   unescape
 } from './utils';
 import {
+  AbortError,
   NoAudioReceived,
   UnexpectedResponse,
   UnknownResponse,
+  ValueError,
   WebSocketError
 } from "./exceptions";
 import { TTSConfig } from './tts_config';
+import { InputType, splitSsml } from './ssml';
+import { SsmlBuilder } from './ssml-builder';
 import { CommunicateState, TTSChunk } from './types';
+import { SourceLocator } from './source-map';
+import { ChunkingStrategy, splitTextBySentence, validateChunkingStrategy } from './chunking';
+import { voiceLocale } from './xml';
+import { InputPreprocessor, preprocessText } from './markup';
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { DetectedLanguage, segmentByLanguage } from './language-detection';
+import { AutoVoiceOptions, selectVoice } from './auto-voice';
+import { VoicesManager } from './voices';
 // Use isomorphic WebSocket that works in both Node.js and browsers
 import WebSocket from 'isomorphic-ws';
-import { DEFAULT_VOICE, WSS_URL, WSS_HEADERS, SEC_MS_GEC_VERSION } from './constants';
+import { DEFAULT_OUTPUT_FORMAT, DEFAULT_VOICE, WSS_URL, WSS_HEADERS, SEC_MS_GEC_VERSION } from './constants';
+import {
+  AudioDurationCounter,
+  OutputFormat,
+  createAudioDurationCounter,
+  isExpectedContentType,
+  validateOutputFormat
+} from './output-format';
+import { RetryOptions, RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+import { synthesizeInOrder, validateConcurrency } from './parallel';
 import { DRM } from './drm';
-import { AxiosError } from 'axios';
 
 // HttpsProxyAgent will be imported dynamically when needed
 let HttpsProxyAgent: any;
@@ -31,7 +52,7 @@ let HttpsProxyAgent: any;
  * Configuration options for the Communicate class.
  */
 export interface CommunicateOptions {
-  /** Voice to use for synthesis (e.g., "en-US-EmmaMultilingualNeural") */
+  /** Voice to use for synthesis (e.g., "en-US-EmmaMultilingualNeural"), or "auto" to choose one for the detected language */
   voice?: string;
   /** Speech rate adjustment (e.g., "+20%", "-10%") */
   rate?: string;
@@ -43,8 +64,61 @@ export interface CommunicateOptions {
   proxy?: string;
   /** WebSocket connection timeout in milliseconds */
   connectionTimeout?: number;
+  /** Audio output format (default: "audio-24khz-48kbitrate-mono-mp3") */
+  outputFormat?: OutputFormat;
+  /** Emit WordBoundary events (default: true) */
+  wordBoundaryEnabled?: boolean;
+  /** Emit SentenceBoundary events (default: false) */
+  sentenceBoundaryEnabled?: boolean;
+  /** How the input is interpreted: plain text (default) or a complete SSML document */
+  inputType?: InputType;
+  /** How plain text is split into chunks: at the last space (default) or at sentence boundaries */
+  chunking?: ChunkingStrategy;
+  /** Converts plain text input before it is cleaned and escaped: "markdown", "html" or a custom function */
+  preprocess?: InputPreprocessor;
+  /** Pronunciation lexicons for plain text input, in order of precedence; lexicons for other languages are skipped */
+  lexicon?: Lexicon | Lexicon[];
+  /** Reads numbers, dates, currencies and units in plain text input consistently for the voice's language */
+  normalizer?: TextNormalizer;
+  /** Preferences for the voices chosen by voice: 'auto' */
+  autoVoice?: AutoVoiceOptions;
+  /** Signal that cancels synthesis, closing the WebSocket connection */
+  signal?: AbortSignal;
+  /** Retry policy for transient failures; each chunk is attempted once if omitted */
+  retry?: RetryOptions;
+  /** Send all text chunks over one WebSocket connection instead of one per chunk (default: false) */
+  reuseConnection?: boolean;
+  /** Number of text chunks synthesized at once on separate connections (default: 1) */
+  concurrency?: number;
 }
 
+/** WebSocket connection to the service, shared by consecutive turns when reused */
+type Connection = {
+  websocket: WebSocket;
+  messageQueue: (TTSChunk | Error | 'turn.start' | 'turn.end' | 'close')[];
+  /** X-RequestId of the turn whose messages are accepted */
+  requestId: string | null;
+  /** Text chunk and timing state of the current turn */
+  turn: TurnState | null;
+  /** Measures the audio received in the current turn */
+  audioDuration: AudioDurationCounter | null;
+  resolveMessage: (() => void) | null;
+};
+
+/** Text chunk being synthesized and its timing state */
+type TurnState = Omit<CommunicateState, 'streamWasCalled'>;
+
+/** Text chunks spoken by one voice */
+type VoiceSegment = {
+  texts: Generator<Buffer>;
+  ttsConfig: TTSConfig;
+  /** Language the voice is chosen for (voice: 'auto') */
+  language?: DetectedLanguage;
+};
+
+/** Holds the connection used by consecutive turns */
+type ConnectionSlot = { connection: Connection | null };
+
 /**
  * Main class for text-to-speech synthesis using Microsoft Edge's online TTS service.
  * 
@@ -63,9 +137,22 @@ export interface CommunicateOptions {
  */
 export class Communicate {
   private readonly ttsConfig: TTSConfig;
-  private readonly texts: Generator<Buffer>;
+  private readonly segments: VoiceSegment[];
+  private readonly autoVoice?: AutoVoiceOptions;
+  private readonly sourceLocator?: SourceLocator;
   private readonly proxy?: string;
   private readonly connectionTimeout?: number;
+  private readonly outputFormat: OutputFormat;
+  private readonly wordBoundaryEnabled: boolean;
+  private readonly sentenceBoundaryEnabled: boolean;
+  private readonly inputType: InputType;
+  private readonly lexicons: Lexicon[];
+  private readonly normalizer?: TextNormalizer;
+  private readonly signal?: AbortSignal;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly reuseConnection: boolean;
+  private readonly concurrency: number;
+  private readonly slot: ConnectionSlot = { connection: null };
 
   private state: CommunicateState = {
     partialText: Buffer.from(''),
@@ -81,8 +168,10 @@ export class Communicate {
    * @param options - Configuration options for synthesis
    */
   constructor(text: string, options: CommunicateOptions = {}) {
+    const autoVoice = options.voice === 'auto';
     this.ttsConfig = new TTSConfig({
-      voice: options.voice || DEFAULT_VOICE,
+      // Text whose language is not detected is spoken by the fallback voice
+      voice: autoVoice ? options.autoVoice?.fallback ?? DEFAULT_VOICE : options.voice || DEFAULT_VOICE,
       rate: options.rate,
       volume: options.volume,
       pitch: options.pitch,
@@ -92,22 +181,85 @@ export class Communicate {
       throw new TypeError('text must be a string');
     }
 
-    this.texts = splitTextByByteLength(
-      escape(removeIncompatibleCharacters(text)),
-      // calcMaxMesgSize(this.ttsConfig),
-      4096,
-    );
+    this.inputType = options.inputType ?? 'text';
+    this.lexicons = [options.lexicon ?? []].flat();
+    this.normalizer = options.normalizer;
+    const chunking = validateChunkingStrategy(options.chunking ?? 'bytes');
+    const plainText = this.inputType === 'ssml' ? text : preprocessText(text, options.preprocess);
+    const split = (text: string, locale?: string): Generator<Buffer> => {
+      if (chunking === 'sentence') {
+        const chunks = splitTextBySentence(removeIncompatibleCharacters(text), 4096, locale);
+        return (function* () {
+          for (const chunk of chunks) {
+            yield Buffer.from(chunk, 'utf-8');
+          }
+        })();
+      }
+      return splitTextByByteLength(
+        escape(removeIncompatibleCharacters(text)),
+        // calcMaxMesgSize(this.ttsConfig),
+        4096,
+      );
+    };
+
+    // Offsets in preprocessed text would not point into the text passed in
+    if (this.inputType !== 'ssml' && !options.preprocess) {
+      this.sourceLocator = new SourceLocator(plainText, removeIncompatibleCharacters);
+    }
+    if (this.inputType === 'ssml') {
+      if (autoVoice) {
+        throw new ValueError("voice 'auto' is only supported for plain text input");
+      }
+      const chunks = splitSsml(text, 4096);
+      this.segments = [{
+        texts: (function* () {
+          for (const chunk of chunks) {
+            yield Buffer.from(chunk, 'utf-8');
+          }
+        })(),
+        ttsConfig: this.ttsConfig,
+      }];
+    } else if (autoVoice) {
+      this.autoVoice = options.autoVoice ?? {};
+      this.segments = segmentByLanguage(plainText, this.autoVoice.granularity).map(segment => ({
+        texts: split(segment.text, segment.language?.language),
+        ttsConfig: this.ttsConfig,
+        language: segment.language,
+      }));
+    } else {
+      this.segments = [{ texts: split(plainText, voiceLocale(this.ttsConfig.voice)), ttsConfig: this.ttsConfig }];
+    }
 
     this.proxy = options.proxy;
     this.connectionTimeout = options.connectionTimeout;
+    this.outputFormat = validateOutputFormat(options.outputFormat ?? DEFAULT_OUTPUT_FORMAT);
+    this.wordBoundaryEnabled = options.wordBoundaryEnabled ?? true;
+    this.sentenceBoundaryEnabled = options.sentenceBoundaryEnabled ?? false;
+    this.signal = options.signal;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.reuseConnection = options.reuseConnection ?? false;
+    this.concurrency = validateConcurrency(options.concurrency ?? 1);
   }
 
-  private parseMetadata(data: Buffer): TTSChunk {
+  /**
+   * Creates a Communicate instance that synthesizes a complete SSML document.
+   * Shorthand for passing `inputType: 'ssml'`.
+   * 
+   * @param ssml - SSML document with a `<speak>` root and at least one `<voice>` element,
+   *   or an SsmlBuilder
+   * @param options - Configuration options for synthesis
+   * @throws {ValueError} If the SSML document is not valid
+   */
+  static fromSsml(ssml: string | SsmlBuilder, options: Omit<CommunicateOptions, 'inputType'> = {}): Communicate {
+    return new Communicate(ssml.toString(), { ...options, inputType: 'ssml' });
+  }
+
+  private parseMetadata(data: Buffer, offsetCompensation: number): TTSChunk {
     const metadata = JSON.parse(data.toString('utf-8'));
     for (const metaObj of metadata['Metadata']) {
       const metaType = metaObj['Type'];
       if (metaType === 'WordBoundary' || metaType === 'SentenceBoundary') {
-        const currentOffset = metaObj['Data']['Offset'] + this.state.offsetCompensation;
+        const currentOffset = metaObj['Data']['Offset'] + offsetCompensation;
         const currentDuration = metaObj['Data']['Duration'];
         return {
           type: metaType,
@@ -124,7 +276,7 @@ export class Communicate {
     throw new UnexpectedResponse('No WordBoundary metadata found');
   }
 
-  private async * _stream(): AsyncGenerator<TTSChunk, void, unknown> {
+  private async connect(): Promise<Connection> {
     const url = `${WSS_URL}&Sec-MS-GEC=${DRM.generateSecMsGec()}&Sec-MS-GEC-Version=${SEC_MS_GEC_VERSION}&ConnectionId=${connectId()}`;
 
     let agent: any;
@@ -149,118 +301,332 @@ export class Communicate {
       agent: agent,
     });
 
-    const messageQueue: (TTSChunk | Error | 'close')[] = [];
-    let resolveMessage: (() => void) | null = null;
+    const connection: Connection = {
+      websocket,
+      messageQueue: [],
+      requestId: null,
+      turn: null,
+      audioDuration: null,
+      resolveMessage: null,
+    };
+    const push = (message: Connection['messageQueue'][number]) => {
+      connection.messageQueue.push(message);
+      if (connection.resolveMessage) connection.resolveMessage();
+    };
 
     websocket.on('message', (message: Buffer, isBinary: boolean) => {
       if (!isBinary) {
         // text message
         const [headers, data] = getHeadersAndDataFromText(message);
 
+        // Drop messages that belong to an earlier turn on this connection
+        const turn = connection.turn;
+        if (!turn || (headers['X-RequestId'] && headers['X-RequestId'] !== connection.requestId)) {
+          return;
+        }
+
         const path = headers['Path'];
         if (path === 'audio.metadata') {
           try {
-            const parsedMetadata = this.parseMetadata(data);
-            this.state.lastDurationOffset = parsedMetadata.offset! + parsedMetadata.duration!;
-            messageQueue.push(parsedMetadata);
+            const parsedMetadata = this.parseMetadata(data, turn.offsetCompensation);
+            // Sentence and word boundaries overlap, so keep the furthest end seen
+            turn.lastDurationOffset = Math.max(
+              turn.lastDurationOffset,
+              parsedMetadata.offset! + parsedMetadata.duration!,
+            );
+            push({
+              ...parsedMetadata,
+              ...turn.source?.locate(parsedMetadata.type, parsedMetadata.text!),
+            });
           } catch (e) {
-            messageQueue.push(e as Error);
+            push(e as Error);
           }
         } else if (path === 'turn.end') {
-          this.state.offsetCompensation = this.state.lastDurationOffset;
-          // Add average padding typically added by the service to the end of the audio
-          this.state.offsetCompensation += 8_750_000;
-          websocket.close();
-        } else if (path !== 'response' && path !== 'turn.start') {
-          messageQueue.push(new UnknownResponse(`Unknown path received: ${path}`));
+          const audioDuration = connection.audioDuration?.duration;
+          if (audioDuration) {
+            // The next turn starts exactly where the audio of this one ends
+            turn.offsetCompensation += audioDuration;
+          } else {
+            turn.offsetCompensation = turn.lastDurationOffset;
+            // Add average padding typically added by the service to the end of the audio
+            turn.offsetCompensation += 8_750_000;
+          }
+          push('turn.end');
+        } else if (path === 'turn.start') {
+          push('turn.start');
+        } else if (path !== 'response') {
+          push(new UnknownResponse(`Unknown path received: ${path}`));
         }
       } else {
         // binary message
         if (message.length < 2) {
-          messageQueue.push(new UnexpectedResponse('We received a binary message, but it is missing the header length.'));
+          push(new UnexpectedResponse('We received a binary message, but it is missing the header length.'));
         } else {
           const headerLength = message.readUInt16BE(0);
           if (headerLength > message.length) {
-            messageQueue.push(new UnexpectedResponse('The header length is greater than the length of the data.'));
+            push(new UnexpectedResponse('The header length is greater than the length of the data.'));
           } else {
             const [headers, data] = getHeadersAndDataFromBinary(message);
 
+            if (headers['X-RequestId'] && headers['X-RequestId'] !== connection.requestId) {
+              return;
+            }
+
             if (headers['Path'] !== 'audio') {
-              messageQueue.push(new UnexpectedResponse('Received binary message, but the path is not audio.'));
+              push(new UnexpectedResponse('Received binary message, but the path is not audio.'));
             } else {
               const contentType = headers['Content-Type'];
-              if (contentType !== 'audio/mpeg') {
+              if (!isExpectedContentType(this.outputFormat, contentType)) {
                 if (data.length > 0) {
-                  messageQueue.push(new UnexpectedResponse('Received binary message, but with an unexpected Content-Type.'));
+                  push(new UnexpectedResponse('Received binary message, but with an unexpected Content-Type.'));
                 }
               } else if (data.length === 0) {
-                messageQueue.push(new UnexpectedResponse('Received binary message, but it is missing the audio data.'));
+                push(new UnexpectedResponse('Received binary message, but it is missing the audio data.'));
               } else {
-                messageQueue.push({ type: 'audio', data: data });
+                connection.audioDuration?.push(data);
+                push({ type: 'audio', data: data });
               }
             }
           }
         }
       }
-      if (resolveMessage) resolveMessage();
+    });
+
+    websocket.on('unexpected-response', (request, response) => {
+      const headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(response.headers)) {
+        if (value !== undefined) headers[key] = Array.isArray(value) ? value.join(', ') : value;
+      }
+      push(new WebSocketError(
+        `Unexpected server response: ${response.statusCode}`,
+        response.statusCode,
+        headers,
+      ));
+      // The handshake is aborted when the socket is closed
+      response.resume();
     });
 
     websocket.on('error', (error) => {
-      messageQueue.push(new WebSocketError(error.message));
-      if (resolveMessage) resolveMessage();
+      push(new WebSocketError(error.message));
     });
 
     websocket.on('close', () => {
-      messageQueue.push('close');
-      if (resolveMessage) resolveMessage();
+      push('close');
     });
 
-    await new Promise<void>(resolve => websocket.on('open', resolve));
+    return connection;
+  }
 
-    websocket.send(
-      `X-Timestamp:${dateToString()}\r\n`
-      + 'Content-Type:application/json; charset=utf-8\r\n'
-      + 'Path:speech.config\r\n\r\n'
-      + '{"context":{"synthesis":{"audio":{"metadataoptions":{'
-      + '"sentenceBoundaryEnabled":"false","wordBoundaryEnabled":"true"},'
-      + '"outputFormat":"audio-24khz-48kbitrate-mono-mp3"'
-      + '}}}}\r\n'
-    );
+  private closeConnection(slot: ConnectionSlot) {
+    const connection = slot.connection;
+    if (!connection) {
+      return;
+    }
+    slot.connection = null;
+    const { websocket } = connection;
+    websocket.removeAllListeners();
+    // Closing a connecting socket emits an error, which must not go unhandled
+    websocket.on('error', () => { });
+    if (websocket.readyState === WebSocket.CONNECTING || websocket.readyState === WebSocket.OPEN) {
+      websocket.close();
+    }
+  }
 
-    websocket.send(
-      ssmlHeadersPlusData(
-        connectId(),
-        dateToString(),
-        mkssml(this.ttsConfig, this.state.partialText),
-      )
-    );
+  private async * _stream(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<TTSChunk, void, unknown> {
+    const reused = slot.connection !== null && slot.connection.websocket.readyState === WebSocket.OPEN;
+    if (!reused) {
+      // The server may have closed an idle connection; start a new one
+      this.closeConnection(slot);
+      slot.connection = await this.connect();
+    }
+    const connection = slot.connection!;
+    const { websocket, messageQueue } = connection;
+    const requestId = connectId();
+    connection.requestId = requestId;
+    connection.turn = turn;
+    connection.audioDuration = createAudioDurationCounter(this.outputFormat);
+
+    const onAbort = () => {
+      messageQueue.push(new AbortError('Synthesis was aborted.'));
+      if (connection.resolveMessage) connection.resolveMessage();
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    let turnCompleted = false;
+    let reconnect = false;
+    try {
+      // An abort while connecting fired before the listener was attached
+      if (signal?.aborted) {
+        throw new AbortError('Synthesis was aborted.');
+      }
+
+      let opened = reused;
+      if (!reused) {
+        // Resolves false if the connection fails or synthesis is aborted before it opens;
+        // the reason is then taken from the message queue below.
+        opened = await new Promise<boolean>(resolve => {
+          connection.resolveMessage = () => resolve(false);
+          websocket.once('open', () => resolve(true));
+        });
+        connection.resolveMessage = null;
+
+        if (opened && !signal?.aborted) {
+          websocket.send(
+            `X-Timestamp:${dateToString()}\r\n`
+            + 'Content-Type:application/json; charset=utf-8\r\n'
+            + 'Path:speech.config\r\n\r\n'
+            + '{"context":{"synthesis":{"audio":{"metadataoptions":{'
+            + `"sentenceBoundaryEnabled":"${this.sentenceBoundaryEnabled}",`
+            + `"wordBoundaryEnabled":"${this.wordBoundaryEnabled}"},`
+            + `"outputFormat":"${this.outputFormat}"`
+            + '}}}}\r\n'
+          );
+        }
+      }
 
-    let audioWasReceived = false;
-    while (true) {
-      if (messageQueue.length > 0) {
-        const message = messageQueue.shift()!;
-        if (message === 'close') {
-          if (!audioWasReceived) {
-            throw new NoAudioReceived('No audio was received.');
+      if (opened && !signal?.aborted) {
+        websocket.send(
+          ssmlHeadersPlusData(
+            requestId,
+            dateToString(),
+            this.inputType === 'ssml'
+              ? turn.partialText.toString('utf-8')
+              : mkssml(turn.ttsConfig ?? this.ttsConfig, turn.partialText, this.lexicons, this.normalizer),
+          )
+        );
+      }
+
+      let audioWasReceived = false;
+      let turnStarted = false;
+      while (true) {
+        if (messageQueue.length > 0) {
+          const message = messageQueue.shift()!;
+          if (message === 'turn.start') {
+            turnStarted = true;
+          } else if (message === 'turn.end') {
+            if (!audioWasReceived) {
+              throw new NoAudioReceived('No audio was received.');
+            }
+            turnCompleted = true;
+            break;
+          } else if (message === 'close') {
+            if (reused && !turnStarted) {
+              // The server closed the reused connection before answering; retry on a new one
+              reconnect = true;
+              break;
+            }
+            if (!audioWasReceived) {
+              throw new NoAudioReceived('No audio was received.');
+            }
+            throw new WebSocketError('Connection closed before the end of the turn.');
+          } else if (message instanceof Error) {
+            throw message;
+          } else {
+            if (message.type === 'audio') audioWasReceived = true;
+            yield message;
           }
-          break;
-        } else if (message instanceof Error) {
-          throw message;
         } else {
-          if (message.type === 'audio') audioWasReceived = true;
-          yield message;
+          // Use a more responsive wait mechanism
+          await new Promise<void>(resolve => {
+            connection.resolveMessage = resolve;
+            // Add a small timeout to prevent indefinite waiting
+            setTimeout(resolve, 50);
+          });
+          connection.resolveMessage = null;
         }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!turnCompleted || !this.reuseConnection) {
+        this.closeConnection(slot);
+      }
+    }
+
+    if (reconnect) {
+      yield* this._stream(turn, slot, signal);
+    }
+  }
+
+  private streamWithRetry(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<TTSChunk, void, unknown> {
+    // Timing state before the chunk, restored so a retried chunk keeps offsets monotonic
+    const { offsetCompensation, lastDurationOffset } = turn;
+    return withRetry(
+      () => this._stream(turn, slot, signal),
+      this.retryPolicy,
+      () => {
+        turn.offsetCompensation = offsetCompensation;
+        turn.lastDurationOffset = lastDurationOffset;
+        turn.source?.reset();
+      },
+      signal,
+    );
+  }
+
+  private async * synthesizeChunk(turn: TurnState, slot: ConnectionSlot, signal?: AbortSignal): AsyncGenerator<TTSChunk, void, unknown> {
+    try {
+      yield* this.streamWithRetry(turn, slot, signal);
+    } catch (e) {
+      // The handshake is rejected with 403 when the local clock is off
+      if (e instanceof WebSocketError && e.status === 403) {
+        DRM.handleClientResponseError(e);
+        yield* this.streamWithRetry(turn, slot, signal);
       } else {
-        // Use a more responsive wait mechanism
-        await new Promise<void>(resolve => {
-          resolveMessage = resolve;
-          // Add a small timeout to prevent indefinite waiting
-          setTimeout(resolve, 50);
-        });
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Chooses the voice of each segment in a detected language (voice: 'auto'), fetching
+   * the voice list unless voices are given in the options.
+   */
+  private async chooseVoices(autoVoice: AutoVoiceOptions): Promise<void> {
+    if (!this.segments.some(segment => segment.language)) {
+      return;
+    }
+    const voices = autoVoice.voices ?? await VoicesManager.create(undefined, this.proxy);
+    for (const segment of this.segments) {
+      segment.ttsConfig = new TTSConfig({
+        voice: selectVoice(voices, segment.language, { ...autoVoice, fallback: this.ttsConfig.voice }),
+        rate: this.ttsConfig.rate,
+        volume: this.ttsConfig.volume,
+        pitch: this.ttsConfig.pitch,
+      });
+    }
+  }
+
+  /** Text chunks in order, with the voice that speaks them */
+  private * chunks(): Generator<[Buffer, TTSConfig]> {
+    for (const segment of this.segments) {
+      for (const text of segment.texts) {
+        yield [text, segment.ttsConfig];
       }
     }
   }
 
+  private async * streamConcurrently(): AsyncGenerator<TTSChunk, void, unknown> {
+    // Each worker has its own connection, reused across its turns when enabled
+    const slots: ConnectionSlot[] = [];
+    try {
+      yield* synthesizeInOrder(this.chunks(), this.concurrency, ([partialText, ttsConfig], signal, worker) => {
+        const turn: TurnState = {
+          partialText,
+          offsetCompensation: 0,
+          lastDurationOffset: 0,
+          source: this.sourceLocator?.next(partialText.toString('utf-8')),
+          ttsConfig,
+        };
+        slots[worker] ??= { connection: null };
+        return {
+          chunks: this.synthesizeChunk(turn, slots[worker], signal),
+          duration: () => turn.offsetCompensation,
+        };
+      }, this.signal);
+    } finally {
+      slots.forEach(slot => this.closeConnection(slot));
+    }
+  }
+
   /**
    * Streams text-to-speech synthesis results.
    * 
@@ -271,6 +637,7 @@ export class Communicate {
    * @throws {Error} If called more than once
    * @throws {NoAudioReceived} If no audio data is received
    * @throws {WebSocketError} If WebSocket connection fails
+   * @throws {AbortError} If the signal passed in the options is aborted
    * 
    * @example
    * ```typescript
@@ -289,22 +656,27 @@ export class Communicate {
     }
     this.state.streamWasCalled = true;
 
-    for (const partialText of this.texts) {
-      this.state.partialText = partialText;
-      try {
-        for await (const message of this._stream()) {
-          yield message;
-        }
-      } catch (e) {
-        if (e instanceof AxiosError && e.response?.status === 403) {
-          DRM.handleClientResponseError(e);
-          for await (const message of this._stream()) {
-            yield message;
-          }
-        } else {
-          throw e;
+    if (this.autoVoice) {
+      await this.chooseVoices(this.autoVoice);
+    }
+
+    if (this.concurrency > 1) {
+      yield* this.streamConcurrently();
+      return;
+    }
+
+    try {
+      for (const [partialText, ttsConfig] of this.chunks()) {
+        if (this.signal?.aborted) {
+          throw new AbortError('Synthesis was aborted.');
         }
+        this.state.partialText = partialText;
+        this.state.ttsConfig = ttsConfig;
+        this.state.source = this.sourceLocator?.next(partialText.toString('utf-8'));
+        yield* this.synthesizeChunk(this.state, this.slot, this.signal);
       }
+    } finally {
+      this.closeConnection(this.slot);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Joins the MP3 audio and boundaries of several syntheses into one, with silence between them.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { createSilence, scanMp3 } from "./mp3";
+
+/**
+ * A synthesis to concatenate, such as a `SynthesisResult` of the simple API or the
+ * collected output of a Communicate stream.
+ */
+export interface SynthesisSegment<B extends { offset?: number }> {
+  /** MP3 audio of the synthesis */
+  audio: Uint8Array | Blob;
+  /** Word or sentence boundaries with offsets relative to the start of the audio */
+  subtitle: B[];
+}
+
+/**
+ * Options for concatSyntheses.
+ */
+export interface ConcatOptions {
+  /**
+   * Silence inserted between segments in milliseconds: one value for every gap,
+   * or one value per gap (default: 0)
+   */
+  silence?: number | number[];
+}
+
+/**
+ * Result of concatSyntheses.
+ */
+export interface ConcatenatedSynthesis<B extends { offset?: number }> {
+  /** Joined MP3 audio */
+  audio: Uint8Array;
+  /** Boundaries of all segments, with offsets relative to the start of the joined audio */
+  subtitle: B[];
+  /** Total duration in 100-nanosecond units */
+  duration: number;
+  /** Start and duration of each segment in the joined audio, in 100-nanosecond units */
+  segments: { offset: number; duration: number }[];
+}
+
+/**
+ * Concatenates MP3 syntheses, inserting silent frames between them and shifting the
+ * boundary offsets of each segment by the duration of the audio before it.
+ *
+ * The silence is generated in the format of the neighbouring segment and rounded to
+ * whole frames (24 ms for the default output format); offsets account for the exact
+ * duration that was inserted.
+ *
+ * @param segments - Syntheses in playback order
+ * @param options - Silence between segments
+ * @returns The joined audio and boundaries
+ * @throws {ValueError} If a segment is not MP3 audio or a silence value is invalid
+ */
+export async function concatSyntheses<B extends { offset?: number }>(
+  segments: SynthesisSegment<B>[],
+  options: ConcatOptions = {},
+): Promise<ConcatenatedSynthesis<B>> {
+  const silence = options.silence ?? 0;
+  const gaps = Array.isArray(silence) ? silence : new Array(Math.max(segments.length - 1, 0)).fill(silence);
+  if (gaps.length !== Math.max(segments.length - 1, 0)) {
+    throw new ValueError(`Expected ${Math.max(segments.length - 1, 0)} silence values, got ${gaps.length}.`);
+  }
+  for (const gap of gaps) {
+    if (!Number.isFinite(gap) || gap < 0) {
+      throw new ValueError(`Invalid silence '${gap}'. Must be a non-negative number of milliseconds.`);
+    }
+  }
+
+  const audio = await Promise.all(segments.map(async segment =>
+    segment.audio instanceof Uint8Array ? segment.audio : new Uint8Array(await segment.audio.arrayBuffer())
+  ));
+  const infos = audio.map((data, i) => {
+    const info = scanMp3(data);
+    if (data.length > 0 && info.frameCount === 0) {
+      throw new ValueError(`Segment ${i} is not MP3 audio.`);
+    }
+    return info;
+  });
+
+  const parts: Uint8Array[] = [];
+  const subtitle: B[] = [];
+  const placed: { offset: number; duration: number }[] = [];
+  let offset = 0;
+  for (let i = 0; i < segments.length; i++) {
+    if (i > 0 && gaps[i - 1] > 0) {
+      // Use the format of the previous segment, or the next one if it is empty
+      const template = [i - 1, i].map(j => ({ data: audio[j], info: infos[j] })).find(t => t.info.frameCount > 0);
+      if (template) {
+        const gap = createSilence(template.data, template.info.frames[0].offset, gaps[i - 1] * 10_000);
+        parts.push(gap.data);
+        offset += gap.duration;
+      }
+    }
+
+    parts.push(audio[i]);
+    for (const boundary of segments[i].subtitle) {
+      subtitle.push(boundary.offset === undefined ? boundary : { ...boundary, offset: boundary.offset + offset });
+    }
+    placed.push({ offset, duration: infos[i].duration });
+    offset += infos[i].duration;
+  }
+
+  const joined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    joined.set(part, position);
+    position += part.length;
+  }
+
+  return { audio: joined, subtitle, duration: offset, segments: placed };
+}
@@ -13,6 +13,9 @@ export const VOICE_LIST_URL = `https://${BASE_URL}/voices/list?trustedclienttoke
 /** Default voice to use when none is specified */
 export const DEFAULT_VOICE = "en-US-EmmaMultilingualNeural";
 
+/** Default audio output format requested from the service */
+export const DEFAULT_OUTPUT_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
+
 /** Version string for Chromium browser emulation */
 export const CHROMIUM_FULL_VERSION = "143.0.3650.75";
 
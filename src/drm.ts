@@ -1,6 +1,6 @@
 import { createHash, randomBytes } from 'crypto';
 import { TRUSTED_CLIENT_TOKEN } from './constants';
-import { SkewAdjustmentError } from "./exceptions";
+import { SkewAdjustmentError, WebSocketError } from "./exceptions";
 import { AxiosError } from "axios";
 
 const WIN_EPOCH = 11644473600;
@@ -47,14 +47,15 @@ export class DRM {
 
   /**
    * Handles client response errors by adjusting clock skew based on server date.
-   * @param e - Axios error containing server response headers
+   * @param e - Axios error or rejected WebSocket handshake containing server response headers
    * @throws {SkewAdjustmentError} If server date is missing or invalid
    */
-  static handleClientResponseError(e: AxiosError) {
-    if (!e.response || !e.response.headers) {
+  static handleClientResponseError(e: AxiosError | WebSocketError) {
+    const headers = e instanceof WebSocketError ? e.headers : e.response?.headers;
+    if (!headers) {
       throw new SkewAdjustmentError("No server date in headers.");
     }
-    const serverDate = e.response.headers["date"];
+    const serverDate = headers["date"];
     if (!serverDate || typeof serverDate !== 'string') {
       throw new SkewAdjustmentError("No server date in headers.");
     }
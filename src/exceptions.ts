@@ -55,11 +55,19 @@ export class NoAudioReceived extends EdgeTTSException {
 /**
  * Exception raised when there's an error with the WebSocket connection.
  * This can occur during connection establishment, data transmission, or connection closure.
+ * When the service rejects the handshake, its HTTP status and headers are available.
  */
 export class WebSocketError extends EdgeTTSException {
-  constructor(message: string) {
+  /** HTTP status of the rejected handshake, if known */
+  readonly status?: number;
+  /** Headers of the rejected handshake response (lowercase names), if known */
+  readonly headers?: Record<string, string>;
+
+  constructor(message: string, status?: number, headers?: Record<string, string>) {
     super(message);
     this.name = "WebSocketError";
+    this.status = status;
+    this.headers = headers;
   }
 }
 
@@ -72,4 +80,15 @@ export class ValueError extends EdgeTTSException {
     super(message);
     this.name = "ValueError";
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Exception raised when synthesis is cancelled through an AbortSignal.
+ * The WebSocket connection is closed and no further text chunks are sent.
+ */
+export class AbortError extends EdgeTTSException {
+  constructor(message: string) {
+    super(message);
+    this.name = "AbortError";
+  }
+}
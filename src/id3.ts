@@ -0,0 +1,223 @@
+/**
+ * ID3v2.3 tag writer for synthesized MP3 files: title, artist, cover art and chapters.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { id3v2Length } from "./mp3";
+
+/**
+ * A chapter of an MP3 file (ID3 CHAP frame).
+ */
+export interface Id3Chapter {
+  /** Chapter title */
+  title: string;
+  /** Start of the chapter in 100-nanosecond units */
+  start: number;
+  /** End of the chapter in 100-nanosecond units */
+  end: number;
+}
+
+/**
+ * Cover art of an MP3 file (ID3 APIC frame).
+ */
+export interface Id3Picture {
+  /** Image data */
+  data: Uint8Array;
+  /** MIME type of the image, e.g. "image/jpeg" */
+  mimeType: string;
+  /** Description of the image (default: "") */
+  description?: string;
+}
+
+/**
+ * Metadata written to an ID3v2 tag.
+ */
+export interface Id3Tags {
+  /** Title (TIT2) */
+  title?: string;
+  /** Artist (TPE1) */
+  artist?: string;
+  /** Album (TALB) */
+  album?: string;
+  /** Front cover (APIC) */
+  cover?: Id3Picture;
+  /** Chapters (CHAP), listed in a top-level table of contents (CTOC) */
+  chapters?: Id3Chapter[];
+}
+
+/** Picture type of a front cover in APIC frames */
+const FRONT_COVER = 3;
+
+/** Chapters listed in a single CTOC frame, whose entry count is one byte */
+const MAX_CHAPTERS = 255;
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(text: string, terminated = false): Uint8Array {
+  const bytes = new Uint8Array(text.length + (terminated ? 1 : 0));
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+// Text is written as ISO-8859-1 (encoding 0) when possible, otherwise as UTF-16 with BOM (encoding 1)
+function encodingOf(texts: string[]): 0 | 1 {
+  return texts.every(text => /^[\x20-\xff]*$/.test(text)) ? 0 : 1;
+}
+
+function encodeText(text: string, encoding: 0 | 1, terminated = false): Uint8Array {
+  if (encoding === 0) {
+    return latin1(text, terminated);
+  }
+  const bytes = new Uint8Array(2 + text.length * 2 + (terminated ? 2 : 0));
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+}
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  // ID3v2.3 frame sizes are plain 32-bit integers and the flags are left empty
+  return concat([latin1(id), uint32(body.length), new Uint8Array(2), body]);
+}
+
+function textFrame(id: string, text: string): Uint8Array {
+  const encoding = encodingOf([text]);
+  return frame(id, concat([new Uint8Array([encoding]), encodeText(text, encoding)]));
+}
+
+function pictureFrame(picture: Id3Picture): Uint8Array {
+  const description = picture.description ?? '';
+  const encoding = encodingOf([description]);
+  return frame('APIC', concat([
+    new Uint8Array([encoding]),
+    latin1(picture.mimeType, true),
+    new Uint8Array([FRONT_COVER]),
+    encodeText(description, encoding, true),
+    picture.data,
+  ]));
+}
+
+function chapterFrames(chapters: Id3Chapter[]): Uint8Array[] {
+  if (chapters.length > MAX_CHAPTERS) {
+    throw new ValueError(`Too many chapters: ${chapters.length}. At most ${MAX_CHAPTERS} are supported.`);
+  }
+  const ids = chapters.map((_, i) => `chp${i}`);
+  const frames = chapters.map((chapter, i) => {
+    if (!(chapter.start >= 0 && chapter.end >= chapter.start)) {
+      throw new ValueError(`Invalid chapter '${chapter.title}': start must be non-negative and not after the end.`);
+    }
+    return frame('CHAP', concat([
+      latin1(ids[i], true),
+      uint32(Math.round(chapter.start / 10_000)),
+      uint32(Math.round(chapter.end / 10_000)),
+      // Byte offsets are not used
+      uint32(0xffffffff),
+      uint32(0xffffffff),
+      textFrame('TIT2', chapter.title),
+    ]));
+  });
+
+  // Top-level (0x02) and ordered (0x01) table of contents
+  const toc = frame('CTOC', concat([
+    latin1('toc', true),
+    new Uint8Array([0x03, chapters.length]),
+    ...ids.map(id => latin1(id, true)),
+  ]));
+  return [toc, ...frames];
+}
+
+/**
+ * Creates an ID3v2.3 tag.
+ * @param tags - Metadata to write
+ * @returns The tag, to be placed before the MP3 frames
+ * @throws {ValueError} If a chapter is invalid or there are more than 255 chapters
+ */
+export function createId3Tag(tags: Id3Tags): Uint8Array {
+  const frames: Uint8Array[] = [];
+  if (tags.title !== undefined) frames.push(textFrame('TIT2', tags.title));
+  if (tags.artist !== undefined) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.album !== undefined) frames.push(textFrame('TALB', tags.album));
+  if (tags.cover) frames.push(pictureFrame(tags.cover));
+  if (tags.chapters?.length) frames.push(...chapterFrames(tags.chapters));
+
+  const body = concat(frames);
+  const size = body.length;
+  const header = new Uint8Array([
+    0x49, 0x44, 0x33, 3, 0, 0,
+    // 28-bit synchsafe size
+    (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f,
+  ]);
+  return concat([header, body]);
+}
+
+/**
+ * Prepends an ID3v2.3 tag to MP3 audio, replacing an existing ID3v2 tag.
+ * @param audio - MP3 audio
+ * @param tags - Metadata to write
+ * @returns The tagged MP3 file
+ */
+export function addId3Tag(audio: Uint8Array, tags: Id3Tags): Uint8Array {
+  return concat([createId3Tag(tags), audio.subarray(id3v2Length(audio))]);
+}
+
+/**
+ * Creates one chapter per boundary, e.g. per `SentenceBoundary`. Each chapter lasts
+ * until the next one starts; the last one until the end of the audio.
+ * @param boundaries - Boundaries with offsets in 100-nanosecond units
+ * @param duration - Duration of the audio, which ends the last chapter (default: end of the last boundary)
+ * @returns Chapters titled with the boundary text
+ */
+export function chaptersFromBoundaries(
+  boundaries: { offset: number; duration: number; text: string }[],
+  duration?: number,
+): Id3Chapter[] {
+  return boundaries.map((boundary, i) => ({
+    title: boundary.text,
+    start: boundary.offset,
+    end: i + 1 < boundaries.length
+      ? boundaries[i + 1].offset
+      : Math.max(duration ?? 0, boundary.offset + boundary.duration),
+  }));
+}
+
+/**
+ * Creates one chapter per segment, e.g. from the `segments` returned by concatSyntheses.
+ * @param segments - Segments with offsets and durations in 100-nanosecond units
+ * @param titles - Chapter titles, one per segment
+ * @returns Chapters spanning the segments
+ * @throws {ValueError} If the number of titles does not match the number of segments
+ */
+export function chaptersFromSegments(
+  segments: { offset: number; duration: number }[],
+  titles: string[],
+): Id3Chapter[] {
+  if (titles.length !== segments.length) {
+    throw new ValueError(`Expected ${segments.length} chapter titles, got ${titles.length}.`);
+  }
+  return segments.map((segment, i) => ({
+    title: titles[i],
+    start: segment.offset,
+    end: segment.offset + segment.duration,
+  }));
+}
@@ -38,11 +38,13 @@
 
 // Node.js-specific API (uses axios, Node.js crypto, etc.)
 export { Communicate, CommunicateOptions } from './communicate';
-export { SubMaker } from './submaker';
+export { SubMaker, VttOptions, VttCueSettings, JsonCue } from './submaker';
+export { SegmentationOptions, SegmentationIssue } from './segmentation';
+export { AssOptions, LrcOptions, TtmlOptions } from './subtitle-formats';
 export { VoicesManager, listVoices } from './voices';
 
 // Simple API (works in both Node.js and browsers when using appropriate exports)
-export { EdgeTTS, ProsodyOptions, WordBoundary, SynthesisResult, createVTT, createSRT, UniversalEdgeTTS } from './simple';
+export { EdgeTTS, ProsodyOptions, SynthesisOptions, WordBoundary, SynthesisResult, createVTT, createSRT, UniversalEdgeTTS } from './simple';
 
 // Universal/Isomorphic API (works in both Node.js and browsers)
 export {
@@ -60,6 +62,7 @@ export { IsomorphicDRM } from './isomorphic-drm';
 export {
   IsomorphicEdgeTTS,
   ProsodyOptions as IsomorphicProsodyOptions,
+  SynthesisOptions as IsomorphicSynthesisOptions,
   WordBoundary as IsomorphicWordBoundary,
   SynthesisResult as IsomorphicSynthesisResult,
   createVTT as createVTTIsomorphic,
@@ -96,6 +99,124 @@ export {
   createSRT as createSRTBrowser
 } from './browser';
 
+// Audio output formats (works everywhere)
+export {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  validateOutputFormat,
+  getMimeType
+} from './output-format';
+
+// SSML input helpers (works everywhere)
+export { InputType, validateSsml, splitSsml } from './ssml';
+export {
+  ssml,
+  SsmlBuilder,
+  SsmlContent,
+  SsmlContentBuilder,
+  SsmlProsodyOptions,
+  SsmlBreakStrength,
+  SsmlEmphasisLevel,
+  SsmlPhoneticAlphabet
+} from './ssml-builder';
+
+// Retry policy (works everywhere)
+export { RetryOptions, isRetryableError } from './retry';
+
+// MP3 frame parsing (works everywhere)
+export {
+  Mp3FrameHeader,
+  Mp3Frame,
+  Mp3Info,
+  parseFrameHeader,
+  scanMp3,
+  getDuration,
+  getFrameOffsets,
+  tickToByteOffset
+} from './mp3';
+
+// Audio concatenation (works everywhere)
+export {
+  SynthesisSegment,
+  ConcatOptions,
+  ConcatenatedSynthesis,
+  concatSyntheses
+} from './concat';
+
+// WAV container for raw PCM output (works everywhere)
+export {
+  WavOutputFormat,
+  WavFormat,
+  getWavFormat,
+  createWavHeader,
+  patchWavHeader,
+  encodeWav
+} from './wav';
+
+// ID3 tags and chapters (works everywhere)
+export {
+  Id3Tags,
+  Id3Chapter,
+  Id3Picture,
+  createId3Tag,
+  addId3Tag,
+  chaptersFromBoundaries,
+  chaptersFromSegments
+} from './id3';
+
+// Boundary to source text mapping (works everywhere)
+export { SourceRange, SourceLocator, ChunkSource } from './source-map';
+
+// Sentence-aware text chunking (works everywhere)
+export { ChunkingStrategy, splitTextBySentence } from './chunking';
+
+// Markdown and HTML input preprocessing (works everywhere)
+export {
+  InputPreprocessor,
+  SpeakableTextOptions,
+  SpeakableSsmlOptions,
+  markdownToText,
+  htmlToText,
+  markdownToSsml,
+  htmlToSsml
+} from './markup';
+
+// Pronunciation lexicons (works everywhere)
+export {
+  Lexicon,
+  LexiconRule,
+  LexiconOptions
+} from './lexicon';
+
+// Text normalization (works everywhere)
+export {
+  TextNormalizer,
+  TextNormalizerOptions,
+  NormalizationMode,
+  NormalizationRule,
+  Normalization,
+  NormalizationContext,
+  NormalizerLanguage,
+  DateOrder,
+  Magnitude,
+  DEFAULT_NORMALIZATION_RULES,
+  ENGLISH_NORMALIZER_LANGUAGE
+} from './normalizer';
+
+// Automatic voice selection (works everywhere)
+export {
+  detectLanguage,
+  segmentByLanguage,
+  DetectedLanguage,
+  LanguageSegment,
+  LanguageGranularity
+} from './language-detection';
+export {
+  selectVoice,
+  AutoVoiceOptions,
+  VoiceFinder
+} from './auto-voice';
+
 // Common types and exceptions
 export * from './exceptions';
 export * from './types'; 
\ No newline at end of file
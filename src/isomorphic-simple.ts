@@ -1,4 +1,12 @@
 import { IsomorphicCommunicate } from './isomorphic-communicate';
+import { DEFAULT_OUTPUT_FORMAT } from './constants';
+import { OutputFormat, getMimeType } from './output-format';
+import { WavOutputFormat, encodeWav, getWavFormat } from './wav';
+import { formatTimestamp } from './timestamp';
+import { InputPreprocessor } from './markup';
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { AutoVoiceOptions } from './auto-voice';
 
 /**
  * Options for controlling the voice prosody (rate, pitch, volume).
@@ -21,6 +29,38 @@ export interface ProsodyOptions {
   pitch?: string;
 }
 
+/**
+ * Options for the simple API: prosody, audio output settings, input preprocessing,
+ * pronunciation lexicons and text normalization.
+ */
+export interface SynthesisOptions extends ProsodyOptions {
+  /**
+   * The audio output format requested from the service.
+   * Default: "audio-24khz-48kbitrate-mono-mp3"
+   */
+  outputFormat?: OutputFormat;
+  /**
+   * Converts the text before synthesis: "markdown", "html" or a custom function.
+   * Default: the text is spoken as-is
+   */
+  preprocess?: InputPreprocessor;
+  /**
+   * Pronunciation lexicons, in order of precedence.
+   * Lexicons for other languages than the voice's are skipped.
+   */
+  lexicon?: Lexicon | Lexicon[];
+  /**
+   * Reads numbers, dates, currencies and units consistently for the voice's language.
+   * Default: the text is sent as-is
+   */
+  normalizer?: TextNormalizer;
+  /**
+   * Preferences for the voices chosen when the voice is "auto".
+   * Default: voices of the most common locale of each detected language
+   */
+  autoVoice?: AutoVoiceOptions;
+}
+
 /**
  * Represents a single word boundary with its timing and text.
  * The API provides timing in 100-nanosecond units.
@@ -38,6 +78,14 @@ export interface WordBoundary {
    * The text of the spoken word.
    */
   text: string;
+  /**
+   * Index of the first character of the word in the synthesized text, if it was found.
+   */
+  sourceStart?: number;
+  /**
+   * Index after the last character of the word in the synthesized text, if it was found.
+   */
+  sourceEnd?: number;
 }
 
 /**
@@ -84,34 +132,92 @@ export class IsomorphicEdgeTTS {
   public rate: string;
   public volume: string;
   public pitch: string;
+  public outputFormat: OutputFormat;
+  public preprocess?: InputPreprocessor;
+  public lexicon?: Lexicon | Lexicon[];
+  public normalizer?: TextNormalizer;
+  public autoVoice?: AutoVoiceOptions;
 
   /**
    * @param text The text to be synthesized.
-   * @param voice The voice to use for synthesis.
-   * @param options Prosody options (rate, volume, pitch).
+   * @param voice The voice to use for synthesis, or "auto" to choose one for the detected language.
+   * @param options Prosody options (rate, volume, pitch), output format, preprocessor, lexicons, normalizer and automatic voice preferences.
    */
   constructor(
     text: string,
     voice = "Microsoft Server Speech Text to Speech Voice (en-US, EmmaMultilingualNeural)",
-    options: ProsodyOptions = {}
+    options: SynthesisOptions = {}
   ) {
     this.text = text;
     this.voice = voice;
     this.rate = options.rate || "+0%";
     this.volume = options.volume || "+0%";
     this.pitch = options.pitch || "+0Hz";
+    this.outputFormat = options.outputFormat || DEFAULT_OUTPUT_FORMAT;
+    this.preprocess = options.preprocess;
+    this.lexicon = options.lexicon;
+    this.normalizer = options.normalizer;
+    this.autoVoice = options.autoVoice;
   }
 
   /**
    * Initiates the synthesis process using isomorphic implementations.
+   * @param options Optional AbortSignal to cancel the synthesis.
    * @returns A promise that resolves with the synthesized audio and subtitle data.
+   * @throws {AbortError} If the signal is aborted before synthesis completes.
+   */
+  public async synthesize(options: { signal?: AbortSignal } = {}): Promise<SynthesisResult> {
+    const { audio, subtitle } = await this.collect(this.outputFormat, options.signal);
+
+    // Convert Uint8Array chunks to Blob (works in both Node.js and browsers)
+    // TS 5.5+ tightens BlobPart types to require ArrayBuffer-backed views.
+    // Our Uint8Array is ArrayBuffer-backed, so cast for type compatibility.
+    const audioBlob = new Blob([
+      audio as unknown as ArrayBufferView<ArrayBuffer>
+    ], { type: getMimeType(this.outputFormat) });
+
+    return {
+      audio: audioBlob,
+      subtitle,
+    };
+  }
+
+  /**
+   * Synthesizes the text as a WAV file. The service is asked for headerless PCM, which is
+   * wrapped in a single RIFF/WAVE container, so long texts split into several requests
+   * still produce one valid file.
+   * @param options Optional AbortSignal, and the raw output format to wrap (default: "raw-24khz-16bit-mono-pcm").
+   *   Use "raw-8khz-8bit-mono-mulaw" for telephony.
+   * @returns A promise that resolves with the WAV audio and subtitle data.
+   * @throws {ValueError} If the output format is not a raw format.
+   * @throws {AbortError} If the signal is aborted before synthesis completes.
    */
-  public async synthesize(): Promise<SynthesisResult> {
+  public async synthesizeToWav(
+    options: { signal?: AbortSignal; outputFormat?: WavOutputFormat } = {}
+  ): Promise<SynthesisResult> {
+    const outputFormat = options.outputFormat || "raw-24khz-16bit-mono-pcm";
+    const format = getWavFormat(outputFormat);
+    const { audio, subtitle } = await this.collect(outputFormat, options.signal);
+    const wav = encodeWav(audio, format);
+
+    return {
+      audio: new Blob([wav as unknown as ArrayBufferView<ArrayBuffer>], { type: "audio/wav" }),
+      subtitle,
+    };
+  }
+
+  private async collect(outputFormat: OutputFormat, signal?: AbortSignal) {
     const communicate = new IsomorphicCommunicate(this.text, {
       voice: this.voice,
       rate: this.rate,
       volume: this.volume,
       pitch: this.pitch,
+      outputFormat,
+      preprocess: this.preprocess,
+      lexicon: this.lexicon,
+      normalizer: this.normalizer,
+      autoVoice: this.autoVoice,
+      signal,
     });
 
     const audioChunks: Uint8Array[] = [];
@@ -125,22 +231,13 @@ export class IsomorphicEdgeTTS {
           offset: chunk.offset,
           duration: chunk.duration,
           text: chunk.text,
+          sourceStart: chunk.sourceStart,
+          sourceEnd: chunk.sourceEnd,
         });
       }
     }
 
-    // Convert Uint8Array chunks to Blob (works in both Node.js and browsers)
-    const audioBuffer = concatUint8Arrays(audioChunks);
-    // TS 5.5+ tightens BlobPart types to require ArrayBuffer-backed views.
-    // Our Uint8Array is ArrayBuffer-backed, so cast for type compatibility.
-    const audioBlob = new Blob([
-      audioBuffer as unknown as ArrayBufferView<ArrayBuffer>
-    ], { type: "audio/mpeg" });
-
-    return {
-      audio: audioBlob,
-      subtitle: wordBoundaries,
-    };
+    return { audio: concatUint8Arrays(audioChunks), subtitle: wordBoundaries };
   }
 }
 
@@ -148,32 +245,6 @@ export class IsomorphicEdgeTTS {
 // Subtitle Generation Utilities (Isomorphic - works everywhere)
 // ==================================================================================
 
-/**
- * Formats a time value from 100-nanosecond units into a VTT or SRT timestamp string.
- * @param timeIn100ns The time value in 100-nanosecond units.
- * @param format The subtitle format, which determines the decimal separator.
- * @returns A formatted timestamp string (e.g., "00:01:23.456").
- */
-function formatTimestamp(timeIn100ns: number, format: 'vtt' | 'srt'): string {
-  const totalSeconds = Math.floor(timeIn100ns / 10000000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  const milliseconds = Math.floor((timeIn100ns % 10000000) / 10000);
-  const separator = format === 'vtt' ? '.' : ',';
-  return `${padNumber(hours)}:${padNumber(minutes)}:${padNumber(seconds)}${separator}${padNumber(milliseconds, 3)}`;
-}
-
-/**
- * Pads a number with leading zeros to a specified length.
- * @param num The number to pad.
- * @param length The desired length of the string.
- * @returns The padded number as a string.
- */
-function padNumber(num: number, length = 2): string {
-  return num.toString().padStart(length, '0');
-}
-
 /**
  * Creates a subtitle file content in VTT (WebVTT) format.
  * @param wordBoundaries The array of word boundary data.
@@ -5,6 +5,12 @@
 
 import { TTSConfig } from './tts_config';
 import { ValueError } from "./exceptions";
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { plainTextSsml } from './ssml';
+import { escape, unescape } from './xml';
+
+export { escape, unescape };
 
 /**
  * Generates a UUID v4 string without hyphens using Web Crypto API.
@@ -26,30 +32,6 @@ export function connectId(): string {
   return uuid.replace(/-/g, '');
 }
 
-/**
- * Web-native XML escaping function.
- */
-export function escape(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-/**
- * Unescapes XML entities in text.
- */
-export function unescape(text: string): string {
-  return text
-    .replace(/&quot;/g, '"')
-    .replace(/&apos;/g, "'")
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&amp;/g, '&');
-}
-
 /**
  * Parses text-based WebSocket messages to extract headers and data.
  * Uses Uint8Array for universal compatibility.
@@ -129,18 +111,15 @@ export function removeIncompatibleCharacters(str: string): string {
 
 /**
  * Creates SSML from TTS configuration and text.
- * Compatible with original mkssml function signature.
+ * Compatible with original mkssml function signature; lexicons and then the normalizer
+ * are applied to the text for the voice's language, as in the other Communicate classes.
  */
-export function mkssml(tc: TTSConfig, escapedText: string | Uint8Array): string {
-  const text = escapedText instanceof Uint8Array ? new TextDecoder().decode(escapedText) : escapedText;
-  return (
-    "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
-    + `<voice name='${tc.voice}'>`
-    + `<prosody pitch='${tc.pitch}' rate='${tc.rate}' volume='${tc.volume}'>`
-    + `${text}`
-    + "</prosody>"
-    + "</voice>"
-    + "</speak>"
+export function mkssml(tc: TTSConfig, escapedText: string | Uint8Array, lexicons: Lexicon[] = [], normalizer?: TextNormalizer): string {
+  return plainTextSsml(
+    tc,
+    escapedText instanceof Uint8Array ? new TextDecoder().decode(escapedText) : escapedText,
+    lexicons,
+    normalizer,
   );
 }
 
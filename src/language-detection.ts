@@ -0,0 +1,287 @@
+/**
+ * Offline detection of the language and script of text, and splitting of mixed-language
+ * text into segments of one language each.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+/**
+ * Language and script of a text.
+ */
+export interface DetectedLanguage {
+  /** ISO 639-1 language code, e.g. "en" */
+  language: string;
+  /** ISO 15924 script code, e.g. "Latn", or "Hans" and "Hant" for Chinese */
+  script: string;
+  /** Share of the evidence that supports the language, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * A part of a text in one language.
+ */
+export interface LanguageSegment {
+  /** Text of the segment, including the whitespace between its paragraphs */
+  text: string;
+  /** Index of the segment in the text */
+  start: number;
+  /** Index after the end of the segment */
+  end: number;
+  /** Language of the segment, or undefined if it could not be detected */
+  language?: DetectedLanguage;
+}
+
+/**
+ * Whether the language is detected once for the whole text or for each paragraph.
+ */
+export type LanguageGranularity = 'document' | 'paragraph';
+
+/** Scripts that are counted, by ISO 15924 code */
+const SCRIPTS = new RegExp([
+  'Latn:Latin', 'Cyrl:Cyrillic', 'Grek:Greek', 'Arab:Arabic', 'Hebr:Hebrew', 'Deva:Devanagari',
+  'Beng:Bengali', 'Guru:Gurmukhi', 'Gujr:Gujarati', 'Taml:Tamil', 'Telu:Telugu', 'Knda:Kannada',
+  'Mlym:Malayalam', 'Sinh:Sinhala', 'Thai:Thai', 'Laoo:Lao', 'Khmr:Khmer', 'Mymr:Myanmar',
+  'Geor:Georgian', 'Armn:Armenian', 'Ethi:Ethiopic', 'Hang:Hangul', 'Kana:Hiragana', 'Kana:Katakana',
+  'Hani:Han',
+].map(entry => {
+  const [code, name] = entry.split(':');
+  return `(?<${code}${name}>\\p{Script=${name}})`;
+}).join('|'), 'gu');
+
+/** Language of scripts that are written in one language */
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Grek: 'el', Hebr: 'he', Beng: 'bn', Guru: 'pa', Gujr: 'gu', Taml: 'ta', Telu: 'te', Knda: 'kn',
+  Mlym: 'ml', Sinh: 'si', Thai: 'th', Laoo: 'lo', Khmr: 'km', Mymr: 'my', Geor: 'ka', Armn: 'hy',
+  Ethi: 'am', Hang: 'ko',
+};
+
+/** Frequent words and characteristic letters of the languages that share a script */
+type LanguageProfile = { words: Set<string>; letters?: RegExp };
+
+function profiles(definitions: Record<string, [string, RegExp?]>): Record<string, LanguageProfile> {
+  const result: Record<string, LanguageProfile> = {};
+  for (const [language, [words, letters]] of Object.entries(definitions)) {
+    result[language] = { words: new Set(words.split(' ')), letters };
+  }
+  return result;
+}
+
+const SCRIPT_PROFILES: Record<string, { fallback?: string; profiles: Record<string, LanguageProfile> }> = {
+  Latn: {
+    profiles: profiles({
+      en: ['the and of to is in that it for you was with on are this be have not what but they from by at we can will your my'],
+      es: ['el la los las de que y en un una es por para con no se del al como pero más está muy lo su', /[ñ¿¡]/],
+      fr: ['le la les de des et est un une que en du pour pas dans qui sur au avec ce il elle je vous nous mais sont', /[œêëîïûÿ]|^(?:[cdjlmnst]|qu)['’]/],
+      de: ['der die das und ist nicht ein eine zu den mit von sich auf für dem auch es ich sie wir aber sind wie im', /ß/],
+      it: ['il lo la gli le di che e è un una per non con del della sono in ma come anche questo al ho si'],
+      pt: ['o a os as de que e do da em um uma para com não no na por mais se é dos das mas está você', /[ãõ]/],
+      nl: ['de het een en van is dat niet ik je op te zijn met voor er maar ook wat hij we naar dit geen'],
+      sv: ['och att det som en är på för med jag inte av till den har de om ett var men så vi kan hon', /å/],
+      da: ['og at det er en til på jeg ikke med for af som de har den et men vi kan så hun der også hvad meget', /[æø]/],
+      nb: ['og det er at en på til jeg ikke med for av som har de den et men vi kan så hun der også hva veldig', /[æø]/],
+      fi: ['ja on ei se että hän oli ovat mutta kun niin myös tämä joka kuin minä sinä me he ole olen vain jos'],
+      pl: ['i w nie na to się z że jest do jak co ale o po tak od za dla przez jego być są czy', /[łżźśćńąę]/],
+      tr: ['ve bir bu da de için ile çok ne ama gibi daha olarak var yok ben sen o biz değil mi en kadar', /[ğış]/],
+      cs: ['a je se na v že to s z ve do jsem jako ale pro by o tak jsou který není už jak', /[řůě]/],
+      ro: ['și în de la cu nu pe o un că este pentru mai din care sunt ce dar sau ca fost', /[șțşţă]/],
+      hu: ['a az és hogy nem is egy van meg de ez volt csak már mint még ha mert vagy kell minden', /[őű]/],
+      vi: ['và của là có không những được các cho một người trong này với đã để đến khi như tôi bạn', /[ơưđạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/],
+      id: ['yang dan di ini itu dengan untuk tidak dari dalam akan pada ada saya kami adalah juga bisa atau mereka'],
+      ca: ['el la els les de i que és en un una per amb no del als això però com més són molt', /l·l/],
+      hr: ['i je u na se da su za od ne to s kao što ali sam smo bio koji kako će biti', /đ/],
+    }),
+  },
+  Cyrl: {
+    fallback: 'ru',
+    profiles: profiles({
+      ru: ['и в не на я что он с как это но по она все так его только было же уже мы вы они ты', /[ыэё]/],
+      uk: ['і в не на що я з як це але та він до вона ми ви вони так було вже є його її', /[іїєґ]/],
+      bg: ['и в не на да се че е за от с това как но той тя са по ще съм беше като му', /ъ/],
+      sr: ['и у је да се на не за од су са што као али то ћу био који када', /[ђјљњћџ]/],
+      mk: ['и во не на да се што е за од со тоа како но тој таа се по ќе сум беше', /[ѓќѕ]/],
+      kk: ['және бұл мен сен ол біз да де бір үшін деп болып еді', /[әғқңөұүһ]/],
+    }),
+  },
+  Arab: {
+    fallback: 'ar',
+    profiles: profiles({
+      ar: ['في من على أن إلى التي الذي هذا عن مع كان لا ما هذه', /[ةى]/],
+      fa: ['و در به از که این را با است برای آن یک می هم', /[پچژگ]/],
+      ur: ['کے میں کی ہے اور سے کو نے یہ کہ ہیں تھا', /[ٹڈڑںے]/],
+      ps: ['د او په چې دا له سره هم دي', /[ټډړږښځڅ]/],
+    }),
+  },
+  Deva: {
+    fallback: 'hi',
+    profiles: profiles({
+      hi: ['है के में की और को से का एक यह हैं नहीं था कि पर'],
+      mr: ['आहे आणि च्या ला हे या ते नाही मी होते केले'],
+      ne: ['छ र को मा हो पनि गर्न छन् यो भएको थियो'],
+    }),
+  },
+};
+
+/** Frequent characters that are only written in Traditional or in Simplified Chinese */
+const TRADITIONAL = /[們這個說為來時會對還點開學國過後麼見東車長門問間電話語書們當與從]/gu;
+const SIMPLIFIED = /[们这个说为来时会对还点开学国过后么见东车长门问间电话语书当与从]/gu;
+
+/** Letters that are inspected, enough to tell the language of a paragraph */
+const SAMPLE_LENGTH = 2000;
+/** Words that are compared with the profiles */
+const SAMPLE_WORDS = 400;
+
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/g;
+
+function countScripts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  let letters = 0;
+  for (const match of text.matchAll(SCRIPTS)) {
+    for (const [group, value] of Object.entries(match.groups!)) {
+      if (value !== undefined) {
+        const script = group.slice(0, 4);
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+        break;
+      }
+    }
+    if (++letters >= SAMPLE_LENGTH) {
+      break;
+    }
+  }
+  return counts;
+}
+
+function detectByProfile(text: string, script: string): DetectedLanguage | undefined {
+  const { fallback, profiles } = SCRIPT_PROFILES[script];
+  const words = (text.toLowerCase().match(/[\p{L}\p{M}'’·]+/gu) ?? []).slice(0, SAMPLE_WORDS);
+  const scores: Record<string, number> = {};
+  let total = 0;
+  for (const word of words) {
+    for (const [language, profile] of Object.entries(profiles)) {
+      const score = (profile.words.has(word) ? 1 : 0) + (profile.letters?.test(word) ? 1 : 0);
+      if (score > 0) {
+        scores[language] = (scores[language] ?? 0) + score;
+        total += score;
+      }
+    }
+  }
+
+  let best: string | undefined;
+  for (const [language, score] of Object.entries(scores)) {
+    if (best === undefined || score > scores[best]) {
+      best = language;
+    }
+  }
+  if (best === undefined) {
+    return fallback ? { language: fallback, script, confidence: 0 } : undefined;
+  }
+  return { language: best, script, confidence: scores[best] / total };
+}
+
+/**
+ * Detects the language of a text from its script and, for scripts shared by several
+ * languages, from frequent words and characteristic letters. Japanese is told from
+ * Chinese by its kana, and Traditional from Simplified Chinese by frequent characters.
+ *
+ * @param text - Text to inspect; the first 2000 letters are used
+ * @returns The language, or undefined if the text has no letters or too little evidence
+ *
+ * @example
+ * ```typescript
+ * detectLanguage('Où est la gare ?'); // { language: 'fr', script: 'Latn', confidence: … }
+ * ```
+ */
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  const counts = countScripts(text);
+  // Han characters are also written in Japanese, so they count with kana
+  const han = counts.get('Hani') ?? 0;
+  const kana = counts.get('Kana') ?? 0;
+  counts.delete('Hani');
+  counts.delete('Kana');
+  if (han + kana > 0) {
+    counts.set(kana > 0 ? 'Jpan' : 'Hani', han + kana);
+  }
+
+  let script: string | undefined;
+  let letters = 0;
+  for (const [name, count] of counts) {
+    letters += count;
+    if (script === undefined || count > counts.get(script)!) {
+      script = name;
+    }
+  }
+  if (script === undefined) {
+    return undefined;
+  }
+  const confidence = counts.get(script)! / letters;
+
+  if (script === 'Jpan') {
+    return { language: 'ja', script, confidence };
+  }
+  if (script === 'Hani') {
+    const traditional = text.match(TRADITIONAL)?.length ?? 0;
+    const simplified = text.match(SIMPLIFIED)?.length ?? 0;
+    return { language: 'zh', script: traditional > simplified ? 'Hant' : 'Hans', confidence };
+  }
+  if (SCRIPT_LANGUAGES[script]) {
+    return { language: SCRIPT_LANGUAGES[script], script, confidence };
+  }
+  const detected = detectByProfile(text, script);
+  return detected && { ...detected, confidence: detected.confidence * confidence };
+}
+
+function sameLanguage(a?: DetectedLanguage, b?: DetectedLanguage): boolean {
+  return a?.language === b?.language && a?.script === b?.script;
+}
+
+/**
+ * Splits text into segments of one language. The language of each paragraph is
+ * detected; paragraphs without enough evidence, such as headings or numbers, join the
+ * segment before them, and consecutive paragraphs in the same language are merged.
+ *
+ * @param text - Text to split
+ * @param granularity - Detect the language once for the whole text or per paragraph
+ *   (default: "paragraph")
+ * @returns Segments in text order that cover the whole text
+ */
+export function segmentByLanguage(text: string, granularity: LanguageGranularity = 'paragraph'): LanguageSegment[] {
+  if (granularity === 'document') {
+    return [{ text, start: 0, end: text.length, language: detectLanguage(text) }];
+  }
+
+  const paragraphs: { start: number; end: number; language?: DetectedLanguage }[] = [];
+  let start = 0;
+  for (const match of text.matchAll(PARAGRAPH_BREAK)) {
+    paragraphs.push({ start, end: match.index!, language: detectLanguage(text.slice(start, match.index!)) });
+    start = match.index! + match[0].length;
+  }
+  paragraphs.push({ start, end: text.length, language: detectLanguage(text.slice(start)) });
+
+  // Paragraphs without a language take the one of the closest paragraph before them
+  const first = paragraphs.find(paragraph => paragraph.language)?.language;
+  let previous = first;
+  for (const paragraph of paragraphs) {
+    paragraph.language ??= previous;
+    previous = paragraph.language;
+  }
+
+  const segments: LanguageSegment[] = [];
+  for (const paragraph of paragraphs) {
+    const last = segments[segments.length - 1];
+    if (last && sameLanguage(last.language, paragraph.language)) {
+      last.end = paragraph.end;
+      last.text = text.slice(last.start, last.end);
+    } else {
+      // Each segment starts where the previous one ends, so together they cover the text
+      const segmentStart = last ? last.end : 0;
+      segments.push({
+        text: text.slice(segmentStart, paragraph.end),
+        start: segmentStart,
+        end: paragraph.end,
+        language: paragraph.language,
+      });
+    }
+  }
+  const last = segments[segments.length - 1];
+  last.end = text.length;
+  last.text = text.slice(last.start);
+  return segments;
+}
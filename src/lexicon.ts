@@ -0,0 +1,284 @@
+/**
+ * Pronunciation lexicons that rewrite words of plain text input into phoneme, sub or
+ * replacement text when the SSML for a text chunk is generated.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { SsmlPhoneticAlphabet } from './ssml-builder';
+import { ValueError } from "./exceptions";
+import { escape, unescape } from "./xml";
+
+/**
+ * Pronunciation of one word or phrase. Exactly one of `phoneme`, `alias` and `text` is set.
+ */
+export interface LexiconRule {
+  /** Phonetic transcription, spoken through a `<phoneme>` element */
+  phoneme?: string;
+  /** Phonetic alphabet of the transcription (default: the lexicon's alphabet) */
+  alphabet?: SsmlPhoneticAlphabet;
+  /** Text to speak instead, through a `<sub alias>` element */
+  alias?: string;
+  /** Text that replaces the word before synthesis */
+  text?: string;
+  /** Match the exact case only (default: the lexicon's setting) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Options for a lexicon.
+ */
+export interface LexiconOptions {
+  /**
+   * Language the lexicon applies to, e.g. "en" or "en-US". A lexicon without a locale
+   * applies to every voice.
+   */
+  locale?: string;
+  /** Phonetic alphabet of transcriptions without their own (default: "ipa") */
+  alphabet?: SsmlPhoneticAlphabet;
+  /** Match the exact case only (default: true) */
+  caseSensitive?: boolean;
+}
+
+/** A word or phrase and its escaped SSML replacement */
+type CompiledRule = {
+  grapheme: string;
+  lowerGrapheme: string;
+  caseSensitive: boolean;
+  /** The grapheme starts with a word character, so no word character may precede a match */
+  wordStart: boolean;
+  /** The grapheme ends with a word character, so no word character may follow a match */
+  wordEnd: boolean;
+  replace: (text: string) => string;
+};
+
+const ALPHABETS: Record<string, SsmlPhoneticAlphabet> = {
+  'ipa': 'ipa',
+  'sapi': 'sapi',
+  'ups': 'ups',
+  'x-sampa': 'x-sampa',
+  // Names used in Azure lexicon files
+  'x-microsoft-sapi': 'sapi',
+  'x-microsoft-ups': 'ups',
+};
+
+const WORD_CHARACTER_START = /^[\p{L}\p{M}\p{N}_]/u;
+const WORD_CHARACTER_END = /[\p{L}\p{M}\p{N}_]$/u;
+
+function validateAlphabet(alphabet: string): SsmlPhoneticAlphabet {
+  const validated = ALPHABETS[alphabet.toLowerCase()];
+  if (!validated) {
+    throw new ValueError(`Invalid phonetic alphabet '${alphabet}'.`);
+  }
+  return validated;
+}
+
+/** Decodes the XML entities and character references of PLS element content */
+function decodeXml(text: string): string {
+  return unescape(
+    text
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escape(data))
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => escape(String.fromCodePoint(parseInt(hex, 16))))
+      .replace(/&#(\d+);/g, (_, decimal: string) => escape(String.fromCodePoint(parseInt(decimal, 10))))
+  ).trim();
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(tag);
+  return match ? decodeXml(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * A pronunciation lexicon: words and phrases with their pronunciation. Matching is
+ * whole-word, the longest phrase wins, and case is matched exactly unless the lexicon
+ * or the rule is case-insensitive.
+ *
+ * @example
+ * ```typescript
+ * const lexicon = new Lexicon({
+ *   Nguyen: { phoneme: 'wɪn' },
+ *   SQL: 'sequel', // Same as { alias: 'sequel' }
+ *   'k8s': { text: 'Kubernetes', caseSensitive: false },
+ * }, { locale: 'en' });
+ *
+ * const communicate = new Communicate('Ask Ms. Nguyen about SQL.', { lexicon });
+ * ```
+ */
+export class Lexicon {
+  /** Language the lexicon applies to, or undefined for every language */
+  public readonly locale?: string;
+  /** Rules indexed by the lowercase first character of their grapheme, longest first */
+  private readonly index = new Map<string, CompiledRule[]>();
+
+  /**
+   * @param entries - Pronunciation of each word or phrase; a string is an alias
+   * @param options - Locale, default alphabet and case sensitivity
+   * @throws {ValueError} If a rule is empty or ambiguous, or an alphabet is unknown
+   */
+  constructor(entries: Record<string, string | LexiconRule>, options: LexiconOptions = {}) {
+    this.locale = options.locale;
+    const alphabet = validateAlphabet(options.alphabet ?? 'ipa');
+    const caseSensitive = options.caseSensitive ?? true;
+
+    for (const [grapheme, entry] of Object.entries(entries)) {
+      if (!grapheme.trim()) {
+        throw new ValueError("Lexicon graphemes must not be empty");
+      }
+      const rule: LexiconRule = typeof entry === 'string' ? { alias: entry } : entry;
+      const pronunciations = [rule.phoneme, rule.alias, rule.text].filter(value => value !== undefined);
+      if (pronunciations.length !== 1) {
+        throw new ValueError(`Lexicon entry '${grapheme}' must have exactly one of phoneme, alias and text.`);
+      }
+
+      let replace: (text: string) => string;
+      if (rule.phoneme !== undefined) {
+        const ph = escape(rule.phoneme);
+        const ruleAlphabet = rule.alphabet ? validateAlphabet(rule.alphabet) : alphabet;
+        replace = text => `<phoneme alphabet='${ruleAlphabet}' ph='${ph}'>${escape(text)}</phoneme>`;
+      } else if (rule.alias !== undefined) {
+        const alias = escape(rule.alias);
+        replace = text => `<sub alias='${alias}'>${escape(text)}</sub>`;
+      } else {
+        const replacement = escape(rule.text!);
+        replace = () => replacement;
+      }
+
+      const lowerGrapheme = grapheme.toLowerCase();
+      const key = lowerGrapheme[0];
+      const rules = this.index.get(key) ?? [];
+      rules.push({
+        grapheme,
+        lowerGrapheme,
+        caseSensitive: rule.caseSensitive ?? caseSensitive,
+        wordStart: WORD_CHARACTER_START.test(grapheme),
+        wordEnd: WORD_CHARACTER_END.test(grapheme),
+        replace,
+      });
+      this.index.set(key, rules);
+    }
+
+    for (const rules of this.index.values()) {
+      rules.sort((a, b) => b.grapheme.length - a.grapheme.length);
+    }
+  }
+
+  /**
+   * Creates a lexicon from a Pronunciation Lexicon Specification (PLS) 1.0 document. The
+   * `xml:lang` and `alphabet` of the `<lexicon>` element are used unless overridden by
+   * the options. Each `<lexeme>` uses its preferred pronunciation, or its first
+   * `<phoneme>` or `<alias>`, for all of its graphemes.
+   *
+   * @param xml - PLS document
+   * @param options - Options that override those of the document
+   * @throws {ValueError} If the document has no `<lexicon>` element or a lexeme has no
+   *   grapheme or pronunciation
+   */
+  static fromPls(xml: string, options: LexiconOptions = {}): Lexicon {
+    const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+    const root = /<lexicon\b[^>]*>/.exec(source);
+    if (!root) {
+      throw new ValueError("PLS document must have a <lexicon> element");
+    }
+    const alphabet = attribute(root[0], 'alphabet');
+
+    const entries: Record<string, LexiconRule> = {};
+    for (const [, lexeme] of source.matchAll(/<lexeme\b[^>]*>([\s\S]*?)<\/lexeme>/g)) {
+      const graphemes = Array.from(lexeme.matchAll(/<grapheme\b[^>]*>([\s\S]*?)<\/grapheme>/g), match => decodeXml(match[1]));
+      const pronunciations = Array.from(lexeme.matchAll(/<(phoneme|alias)\b([^>]*)>([\s\S]*?)<\/\1>/g));
+      const preferred = pronunciations.find(([, , attrs]) => attribute(attrs, 'prefer') === 'true') ?? pronunciations[0];
+      if (graphemes.length === 0 || !preferred) {
+        throw new ValueError("Each PLS lexeme must have a grapheme and a phoneme or alias");
+      }
+
+      const [, element, attrs, content] = preferred;
+      const lexemeAlphabet = attribute(attrs, 'alphabet');
+      const rule: LexiconRule = element === 'phoneme'
+        ? { phoneme: decodeXml(content), alphabet: lexemeAlphabet ? validateAlphabet(lexemeAlphabet) : undefined }
+        : { alias: decodeXml(content) };
+      for (const grapheme of graphemes) {
+        entries[grapheme] = rule;
+      }
+    }
+
+    return new Lexicon(entries, {
+      locale: attribute(root[0], 'xml:lang'),
+      alphabet: alphabet ? validateAlphabet(alphabet) : undefined,
+      ...options,
+    });
+  }
+
+  /**
+   * Returns whether the lexicon applies to a language: "en" applies to "en-US", and a
+   * lexicon without a locale applies to every language.
+   */
+  appliesTo(locale?: string): boolean {
+    if (!this.locale) {
+      return true;
+    }
+    const own = this.locale.toLowerCase();
+    const other = locale?.toLowerCase();
+    return other !== undefined && (other === own || other.startsWith(`${own}-`));
+  }
+
+  /**
+   * Returns the longest rule matching the text at a position, as whole words.
+   */
+  private match(text: string, position: number): CompiledRule | undefined {
+    const rules = this.index.get(text[position].toLowerCase());
+    if (!rules) {
+      return undefined;
+    }
+    const before = WORD_CHARACTER_END.test(text.slice(Math.max(0, position - 2), position));
+    for (const rule of rules) {
+      const end = position + rule.grapheme.length;
+      const candidate = text.slice(position, end);
+      if (
+        (rule.caseSensitive ? candidate === rule.grapheme : candidate.toLowerCase() === rule.lowerGrapheme)
+        && !(rule.wordStart && before)
+        && !(rule.wordEnd && WORD_CHARACTER_START.test(text.slice(end, end + 2)))
+      ) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Rewrites the words of XML-escaped text that appear in the lexicons for a language.
+   * Where several lexicons match at the same position, the longest phrase wins, then
+   * the earliest lexicon.
+   *
+   * @param escapedText - XML-escaped plain text
+   * @param lexicons - Lexicons in order of precedence
+   * @param locale - Language of the voice, e.g. "en-US"
+   * @returns SSML content with `<phoneme>` and `<sub>` elements
+   */
+  static apply(escapedText: string, lexicons: Lexicon[], locale?: string): string {
+    const applicable = lexicons.filter(lexicon => lexicon.appliesTo(locale));
+    if (applicable.length === 0) {
+      return escapedText;
+    }
+
+    const text = unescape(escapedText);
+    const parts: string[] = [];
+    let plainStart = 0;
+    let position = 0;
+    while (position < text.length) {
+      let best: CompiledRule | undefined;
+      for (const lexicon of applicable) {
+        const rule = lexicon.match(text, position);
+        if (rule && (!best || rule.grapheme.length > best.grapheme.length)) {
+          best = rule;
+        }
+      }
+      if (best) {
+        const end = position + best.grapheme.length;
+        parts.push(escape(text.slice(plainStart, position)), best.replace(text.slice(position, end)));
+        plainStart = position = end;
+      } else {
+        position++;
+      }
+    }
+    parts.push(escape(text.slice(plainStart)));
+    return parts.join('');
+  }
+}
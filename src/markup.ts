@@ -0,0 +1,436 @@
+/**
+ * Converts Markdown and HTML input into speakable text or SSML: markup is removed, headings
+ * and paragraphs become pauses, lists become enumerations and code blocks are summarized.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { DEFAULT_VOICE } from './constants';
+import { SsmlBuilder } from './ssml-builder';
+
+/**
+ * Options for the Markdown and HTML converters.
+ */
+export interface SpeakableTextOptions {
+  /** Replace code blocks with a short summary (default) or skip them */
+  codeBlocks?: 'summarize' | 'skip';
+  /** Summary of a code block, given its language if known (default: "Code sample." or "python code sample.") */
+  codeSummary?: (language?: string) => string;
+}
+
+/**
+ * Options for markdownToSsml() and htmlToSsml().
+ */
+export interface SpeakableSsmlOptions extends SpeakableTextOptions {
+  /** Voice of the document (default: "en-US-EmmaMultilingualNeural") */
+  voice?: string;
+  /** Document language (default: "en-US") */
+  lang?: string;
+}
+
+/**
+ * Conversion applied to plain text input before unsupported characters are removed:
+ * "markdown", "html" or a custom function.
+ */
+export type InputPreprocessor = 'markdown' | 'html' | ((text: string) => string);
+
+/** A unit of speech: headings, paragraphs, list items and code blocks */
+type TextBlock = { type: 'heading' | 'paragraph' | 'item'; text: string; number?: number };
+type Block = TextBlock | { type: 'code'; language?: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0',
+  ndash: '\u2013', mdash: '\u2014', hellip: '\u2026', lsquo: '\u2018', rsquo: '\u2019',
+  ldquo: '\u201C', rdquo: '\u201D', laquo: '\u00AB', raquo: '\u00BB', copy: '\u00A9',
+  reg: '\u00AE', trade: '\u2122', deg: '\u00B0', euro: '\u20AC', pound: '\u00A3', times: '\u00D7',
+};
+
+/** Elements whose content is never spoken */
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'math', 'iframe', 'object', 'canvas']);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'caption', 'dd', 'details', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'form', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'section',
+  'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+\d*));/gi, (entity, decimal, hex, name) => {
+    if (name) {
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+    const codePoint = parseInt(decimal ?? hex, decimal ? 10 : 16);
+    return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '';
+  });
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Ends text with punctuation so the voice pauses after it */
+function punctuate(text: string): string {
+  return /[.!?:;…。！？]["'”’)\]]*$/.test(text) ? text : `${text}.`;
+}
+
+/** Reads a link target as its host name, e.g. "example.com" */
+function linkHost(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:\/\/(?:www\.)?([^/?#:\s]+)/i.exec(url)?.[1] ?? url;
+}
+
+function codeSummary(language: string | undefined, options: SpeakableTextOptions): string {
+  return options.codeSummary
+    ? options.codeSummary(language)
+    : language ? `${language} code sample.` : 'Code sample.';
+}
+
+/**
+ * Removes inline Markdown: emphasis, code spans, links, images, footnote references and
+ * inline HTML. Link and image text is kept, URLs are read as their host name.
+ */
+function markdownInline(text: string): string {
+  // Code spans and escaped characters are kept literally, behind private use characters
+  const literals: string[] = [];
+  const keep = (literal: string) => `\uE000${literals.push(literal) - 1}\uE001`;
+  let result = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => keep(code.trim()))
+    .replace(/\\([!-/:-@[-`{-~])/g, (_, char: string) => keep(char))
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/!\[([^\]]*)\]\[[^\]]*\]/g, '$1')
+    .replace(/\[\^[^\]]+\]/g, '')
+    .replace(/\[([^\]]*)\]\((?:[^()]|\([^)]*\))*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<([a-z][a-z0-9+.-]*:\/\/[^>\s]+)>/gi, (_, url: string) => linkHost(url))
+    .replace(/<([^@>\s]+@[^>\s]+)>/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/\bhttps?:\/\/[^\s<>()]+/gi, url => linkHost(url))
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '$1')
+    .replace(/(^|\W)_(?=\S)([^_]*?\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1');
+  result = decodeEntities(result);
+  return collapseWhitespace(result.replace(/\uE000(\d+)\uE001/g, (_, index: string) => literals[Number(index)]));
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const ATX_HEADING = /^ {0,3}#{1,6}(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)\s*$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line)
+    || LIST_ITEM.test(line) || BLOCKQUOTE.test(line);
+}
+
+function parseMarkdown(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  // Open lists, innermost last, with the number of the next item
+  let lists: { indent: number; next?: number }[] = [];
+
+  const flush = () => {
+    const text = markdownInline(paragraph.join(' '));
+    if (text) blocks.push({ type: 'paragraph', text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    let match: RegExpExecArray | null;
+
+    if ((match = FENCE.exec(line))) {
+      flush();
+      const fence = match[1];
+      const close = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`);
+      while (i + 1 < lines.length && !close.test(lines[i + 1])) i++;
+      i++;
+      blocks.push({ type: 'code', language: match[2] || undefined });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    if (/^( {4,}|\t)/.test(line) && paragraph.length === 0 && lists.length === 0) {
+      // Indented code block
+      while (i + 1 < lines.length && (/^( {4,}|\t)/.test(lines[i + 1]) || !lines[i + 1].trim())) i++;
+      blocks.push({ type: 'code' });
+      continue;
+    }
+    if ((match = ATX_HEADING.exec(line))) {
+      flush();
+      lists = [];
+      const text = markdownInline(match[1] ?? '');
+      if (text) blocks.push({ type: 'heading', text });
+      continue;
+    }
+    if (paragraph.length > 0 && SETEXT_UNDERLINE.test(line)) {
+      const text = markdownInline(paragraph.join(' '));
+      paragraph = [];
+      if (text) blocks.push({ type: 'heading', text });
+      continue;
+    }
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      lists = [];
+      continue;
+    }
+    if (paragraph.length === 0 && LINK_DEFINITION.test(line)) {
+      continue;
+    }
+    if ((match = LIST_ITEM.exec(line))) {
+      flush();
+      const indent = match[1].length;
+      const ordered = match[2] !== undefined;
+      while (lists.length > 0 && lists[lists.length - 1].indent > indent) lists.pop();
+      let list = lists[lists.length - 1];
+      if (!list || list.indent < indent || (list.next !== undefined) !== ordered) {
+        if (list?.indent === indent) lists.pop();
+        list = { indent, next: ordered ? Number(match[2]) : undefined };
+        lists.push(list);
+      }
+      // Continuation lines that do not start another block
+      const itemLines = [match[3]];
+      while (i + 1 < lines.length && lines[i + 1].trim() && !startsBlock(lines[i + 1])) {
+        itemLines.push(lines[++i]);
+      }
+      const text = markdownInline(itemLines.join(' '));
+      const number = list.next;
+      if (list.next !== undefined) list.next++;
+      if (text) blocks.push({ type: 'item', text, number });
+      continue;
+    }
+    if (BLOCKQUOTE.test(line)) {
+      while (BLOCKQUOTE.test(line)) line = line.replace(BLOCKQUOTE, '');
+      if (!line.trim()) {
+        flush();
+      } else {
+        paragraph.push(line.trim());
+      }
+      continue;
+    }
+    if (line.includes('|') && (TABLE_DELIMITER.test(lines[i + 1] ?? '') || /^\s*\|/.test(line))) {
+      // Table rows are read as sentences of comma-separated cells
+      flush();
+      if (!TABLE_DELIMITER.test(line)) {
+        const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(markdownInline).filter(Boolean);
+        if (cells.length > 0) blocks.push({ type: 'paragraph', text: punctuate(cells.join(', ')) });
+      }
+      continue;
+    }
+    lists = [];
+    paragraph.push(line.trim());
+  }
+  flush();
+  return blocks;
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'=<>\`]+))`, 'i').exec(attributes);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function parseHtml(html: string): Block[] {
+  const blocks: Block[] = [];
+  const token = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[^>]*>|<(\/?)([a-z][a-z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</gi;
+  let text = '';
+  let pending: TextBlock = { type: 'paragraph', text: '' };
+  let cellCount = 0;
+  // Open lists, innermost last, with the number of the next item
+  const lists: { next?: number }[] = [];
+
+  // Blocks nested in a list item or heading without text before them keep its type
+  const flush = () => {
+    const content = collapseWhitespace(text);
+    if (content) {
+      blocks.push({ ...pending, text: content });
+      pending = { type: 'paragraph', text: '' };
+    }
+    text = '';
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(html))) {
+    const [whole, cdata, closing, rawName, attributes = ''] = match;
+    if (rawName === undefined) {
+      if (cdata !== undefined) {
+        text += cdata;
+      } else if (!whole.startsWith('<!') && !whole.startsWith('<?')) {
+        text += decodeEntities(whole);
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const selfClosing = /\/\s*$/.test(attributes);
+    if (!closing && (SKIPPED_ELEMENTS.has(name) || name === 'pre')) {
+      // Skip to the matching end tag
+      const end = new RegExp(`</${name}\\s*>`, 'gi');
+      end.lastIndex = token.lastIndex;
+      const endMatch = selfClosing ? null : end.exec(html);
+      token.lastIndex = endMatch ? end.lastIndex : selfClosing ? token.lastIndex : html.length;
+      if (name === 'pre') {
+        flush();
+        const content = html.slice(match.index + whole.length, endMatch?.index ?? html.length);
+        const language = /\blang(?:uage)?-([\w+#-]+)/.exec(`${attributes} ${content.match(/<code\b[^>]*>/i)?.[0] ?? ''}`);
+        blocks.push({ type: 'code', language: language?.[1] });
+      }
+      continue;
+    }
+
+    if (name === 'br') {
+      text += ' ';
+      continue;
+    }
+    if (name === 'img' && !closing) {
+      const alt = attribute(attributes, 'alt');
+      if (alt) text += ` ${alt} `;
+      continue;
+    }
+    if (!BLOCK_ELEMENTS.has(name)) {
+      continue;
+    }
+
+    if (name === 'td' || name === 'th') {
+      if (!closing && cellCount++ > 0 && text.trim()) text += ', ';
+      continue;
+    }
+    if (name === 'tr' && text.trim()) {
+      text = punctuate(collapseWhitespace(text));
+    }
+    if (name === 'tr' || name === 'table') {
+      cellCount = 0;
+    }
+
+    flush();
+    if (closing) {
+      if (name === 'ul' || name === 'ol') lists.pop();
+      pending = { type: 'paragraph', text: '' };
+      continue;
+    }
+    if (name === 'ul') {
+      lists.push({});
+    } else if (name === 'ol') {
+      lists.push({ next: Number(attribute(attributes, 'start') ?? 1) || 1 });
+    } else if (name === 'li') {
+      const list = lists[lists.length - 1];
+      pending = { type: 'item', text: '', number: list?.next };
+      if (list?.next !== undefined) list.next++;
+    } else if (/^h[1-6]$/.test(name)) {
+      pending = { type: 'heading', text: '' };
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function renderText(blocks: Block[], options: SpeakableTextOptions): string {
+  let result = '';
+  let previous: Block['type'] | null = null;
+  for (const block of blocks) {
+    let text: string;
+    if (block.type === 'code') {
+      if (options.codeBlocks === 'skip') continue;
+      text = codeSummary(block.language, options);
+    } else if (block.type === 'item') {
+      text = `${block.number !== undefined ? `${block.number}. ` : ''}${punctuate(block.text)}`;
+    } else if (block.type === 'heading') {
+      text = punctuate(block.text);
+    } else {
+      text = block.text;
+    }
+    if (previous) {
+      result += previous === 'item' && block.type === 'item' ? '\n' : '\n\n';
+    }
+    result += text;
+    previous = block.type;
+  }
+  return result;
+}
+
+function renderSsml(blocks: Block[], options: SpeakableSsmlOptions): SsmlBuilder {
+  return new SsmlBuilder(options.lang).voice(options.voice ?? DEFAULT_VOICE, content => {
+    const items: string[] = [];
+    const endList = () => {
+      if (items.length > 0) content.paragraph(p => items.forEach(item => p.sentence(item)));
+      items.length = 0;
+    };
+    for (const block of blocks) {
+      if (block.type === 'item') {
+        items.push(`${block.number !== undefined ? `${block.number}. ` : ''}${punctuate(block.text)}`);
+        continue;
+      }
+      endList();
+      if (block.type === 'code') {
+        if (options.codeBlocks !== 'skip') content.paragraph(codeSummary(block.language, options));
+      } else if (block.type === 'heading') {
+        content.paragraph(p => p.emphasis('moderate', punctuate(block.text))).break('strong');
+      } else {
+        content.paragraph(block.text);
+      }
+    }
+    endList();
+  });
+}
+
+/**
+ * Converts Markdown into speakable plain text. Headings and paragraphs are separated by
+ * blank lines, list items become numbered or punctuated sentences, tables are read row by
+ * row and code blocks are summarized or skipped. Link and image text is kept.
+ * @param markdown - Markdown document
+ * @param options - Conversion options
+ * @returns Text for a Communicate class or EdgeTTS
+ */
+export function markdownToText(markdown: string, options: SpeakableTextOptions = {}): string {
+  return renderText(parseMarkdown(markdown), options);
+}
+
+/**
+ * Converts HTML into speakable plain text, like markdownToText(). Scripts, styles and the
+ * document head are skipped, and images are read by their alt text.
+ * @param html - HTML document or fragment
+ * @param options - Conversion options
+ * @returns Text for a Communicate class or EdgeTTS
+ */
+export function htmlToText(html: string, options: SpeakableTextOptions = {}): string {
+  return renderText(parseHtml(html), options);
+}
+
+/**
+ * Converts Markdown into an SSML document with a paragraph per block, emphasized headings
+ * followed by a strong pause, and a sentence per list item.
+ * @param markdown - Markdown document
+ * @param options - Conversion options, voice and language
+ * @returns The document, for Communicate.fromSsml()
+ */
+export function markdownToSsml(markdown: string, options: SpeakableSsmlOptions = {}): SsmlBuilder {
+  return renderSsml(parseMarkdown(markdown), options);
+}
+
+/**
+ * Converts HTML into an SSML document, like markdownToSsml().
+ * @param html - HTML document or fragment
+ * @param options - Conversion options, voice and language
+ * @returns The document, for Communicate.fromSsml()
+ */
+export function htmlToSsml(html: string, options: SpeakableSsmlOptions = {}): SsmlBuilder {
+  return renderSsml(parseHtml(html), options);
+}
+
+/**
+ * Applies an input preprocessor to text.
+ * @param text - Input text
+ * @param preprocessor - The preprocessor, or undefined to keep the text
+ * @returns The speakable text
+ */
+export function preprocessText(text: string, preprocessor?: InputPreprocessor): string {
+  if (preprocessor === 'markdown') return markdownToText(text);
+  if (preprocessor === 'html') return htmlToText(text);
+  return preprocessor ? preprocessor(text) : text;
+}
@@ -0,0 +1,287 @@
+/**
+ * MP3 frame scanner for the audio produced by the Communicate classes: duration, bitrate,
+ * frame offsets and mapping of boundary offsets to byte positions.
+ * Works on Buffer and Uint8Array, so it can be used in Node.js, browsers and Web Workers.
+ */
+
+/** 100-nanosecond ticks per second, the unit of boundary offsets */
+const TICKS_PER_SECOND = 10_000_000;
+
+// Bitrates in kbit/s, indexed by [version is MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Sample rates in Hz for MPEG-1, indexed by the sample rate index
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * Fields of an MP3 (MPEG audio) frame header.
+ */
+export interface Mp3FrameHeader {
+  /** MPEG version: 1, 2 or 2.5 */
+  version: 1 | 2 | 2.5;
+  /** MPEG layer: 1, 2 or 3 */
+  layer: 1 | 2 | 3;
+  /** Bitrate in kbit/s */
+  bitrate: number;
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Number of samples per channel in the frame */
+  samples: number;
+  /** Length of the frame in bytes, including the header */
+  frameLength: number;
+}
+
+/**
+ * Parses the MPEG audio frame header that starts at the given position.
+ * @param data - Audio data
+ * @param offset - Byte position of the header
+ * @returns The header, or null if there is no valid frame header at the position
+ */
+export function parseFrameHeader(data: Uint8Array, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > data.length) {
+    return null;
+  }
+  const b1 = data[offset + 1];
+  const b2 = data[offset + 2];
+  // 11-bit frame sync
+  if (data[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  const padding = (b2 >> 1) & 0x01;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    // Reserved values and free-format streams are not supported
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[version === 1 ? 0 : 1][layer - 1][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[sampleRateIndex] / (version === 1 ? 1 : version === 2 ? 2 : 4);
+
+  let samples: number;
+  let frameLength: number;
+  if (layer === 1) {
+    samples = 384;
+    frameLength = (Math.floor(12 * bitrate * 1000 / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && version !== 1 ? 576 : 1152;
+    frameLength = Math.floor(samples / 8 * bitrate * 1000 / sampleRate) + padding;
+  }
+
+  return { version, layer, bitrate, sampleRate, samples, frameLength };
+}
+
+/**
+ * A frame found in an MP3 stream.
+ */
+export interface Mp3Frame extends Mp3FrameHeader {
+  /** Byte position of the frame header */
+  offset: number;
+  /** Start time of the frame in 100-nanosecond units */
+  start: number;
+  /** Duration of the frame in 100-nanosecond units */
+  duration: number;
+}
+
+/**
+ * Result of scanning an MP3 stream.
+ */
+export interface Mp3Info {
+  /** Frames in stream order */
+  frames: Mp3Frame[];
+  /** Number of frames */
+  frameCount: number;
+  /** Total duration in 100-nanosecond units */
+  duration: number;
+  /** Average bitrate in kbit/s, or 0 if no frame was found */
+  bitrate: number;
+  /** Sample rate of the first frame in Hz, or 0 if no frame was found */
+  sampleRate: number;
+  /** Byte length of the scanned data */
+  byteLength: number;
+}
+
+function frameDuration(header: Mp3FrameHeader): number {
+  return header.samples / header.sampleRate * TICKS_PER_SECOND;
+}
+
+/**
+ * Returns the length of the ID3v2 tag at the start of the data, including its header.
+ * @param data - Audio data
+ * @returns Length in bytes, or 0 if there is no tag
+ */
+export function id3v2Length(data: Uint8Array): number {
+  // "ID3", version, flags and a 28-bit synchsafe size
+  if (data.length < 10 || data[0] !== 0x49 || data[1] !== 0x44 || data[2] !== 0x33) {
+    return 0;
+  }
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  const footer = data[5] & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+/**
+ * Scans an MP3 stream for frames. A leading ID3v2 tag and bytes that are not part of a
+ * frame are skipped; a truncated frame at the end is ignored.
+ * @param data - MP3 data, e.g. the concatenated `audio` chunks of a stream
+ * @returns Frames, duration and bitrate of the stream
+ */
+export function scanMp3(data: Uint8Array): Mp3Info {
+  const frames: Mp3Frame[] = [];
+  let start = 0;
+  let bytes = 0;
+  let offset = id3v2Length(data);
+  while (offset + 4 <= data.length) {
+    const header = parseFrameHeader(data, offset);
+    if (!header) {
+      offset++;
+      continue;
+    }
+    if (offset + header.frameLength > data.length) {
+      break;
+    }
+    const duration = frameDuration(header);
+    frames.push({ ...header, offset, start: Math.round(start), duration: Math.round(duration) });
+    start += duration;
+    bytes += header.frameLength;
+    offset += header.frameLength;
+  }
+
+  const totalDuration = Math.round(start);
+  return {
+    frames,
+    frameCount: frames.length,
+    duration: totalDuration,
+    bitrate: totalDuration > 0 ? Math.round(bytes * 8 / (totalDuration / TICKS_PER_SECOND) / 1000) : 0,
+    sampleRate: frames.length > 0 ? frames[0].sampleRate : 0,
+    byteLength: data.length,
+  };
+}
+
+/**
+ * Returns the duration of an MP3 stream.
+ * @param data - MP3 data
+ * @returns Duration in 100-nanosecond units, the unit of boundary offsets
+ */
+export function getDuration(data: Uint8Array): number {
+  return scanMp3(data).duration;
+}
+
+/**
+ * Returns the byte position of each frame in an MP3 stream.
+ * @param data - MP3 data
+ * @returns Byte positions of the frame headers, in stream order
+ */
+export function getFrameOffsets(data: Uint8Array): number[] {
+  return scanMp3(data).frames.map(frame => frame.offset);
+}
+
+/**
+ * Maps a time offset, such as `WordBoundary.offset`, to the byte position of the frame
+ * that plays at that time. Scan the stream once with {@link scanMp3} and reuse the result
+ * for many lookups.
+ * @param info - Result of scanMp3
+ * @param ticks - Time offset in 100-nanosecond units
+ * @returns Byte position of the frame header, or the byte length if the offset is past the end
+ */
+export function tickToByteOffset(info: Mp3Info, ticks: number): number {
+  const { frames } = info;
+  if (frames.length === 0 || ticks >= info.duration) {
+    return info.byteLength;
+  }
+  if (ticks <= 0) {
+    return frames[0].offset;
+  }
+  // Last frame that starts at or before the offset
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frames[middle].start <= ticks) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return frames[low].offset;
+}
+
+/**
+ * Generates silent frames in the format of an existing frame. The header is copied
+ * without CRC and padding, and the zeroed side information decodes to silence.
+ * @param data - MP3 data containing the template frame
+ * @param offset - Byte position of the template frame header
+ * @param duration - Requested duration in 100-nanosecond units
+ * @returns The silent frames and their exact duration, a whole number of frames
+ */
+export function createSilence(data: Uint8Array, offset: number, duration: number): { data: Uint8Array; duration: number } {
+  const header = new Uint8Array([data[offset], data[offset + 1] | 0x01, data[offset + 2] & ~0x02, data[offset + 3]]);
+  const frame = parseFrameHeader(header, 0);
+  if (!frame) {
+    return { data: new Uint8Array(0), duration: 0 };
+  }
+  const count = Math.max(0, Math.round(duration / frameDuration(frame)));
+  const silence = new Uint8Array(count * frame.frameLength);
+  for (let i = 0; i < count; i++) {
+    silence.set(header, i * frame.frameLength);
+  }
+  return { data: silence, duration: Math.round(count * frameDuration(frame)) };
+}
+
+/**
+ * Measures the duration of an MP3 stream that arrives in pieces. Frames may be
+ * split across pieces; bytes that are not part of a frame are skipped.
+ */
+export class Mp3DurationCounter {
+  private pending: Uint8Array = new Uint8Array(0);
+  private ticks = 0;
+
+  /**
+   * Adds the next piece of the stream.
+   * @param data - Audio data
+   */
+  push(data: Uint8Array) {
+    let buffer = data;
+    if (this.pending.length > 0) {
+      buffer = new Uint8Array(this.pending.length + data.length);
+      buffer.set(this.pending);
+      buffer.set(data, this.pending.length);
+    }
+
+    let offset = 0;
+    while (offset + 4 <= buffer.length) {
+      const header = parseFrameHeader(buffer, offset);
+      if (!header) {
+        offset++;
+        continue;
+      }
+      if (offset + header.frameLength > buffer.length) {
+        break;
+      }
+      this.ticks += frameDuration(header);
+      offset += header.frameLength;
+    }
+    this.pending = buffer.slice(offset);
+  }
+
+  /** Duration of the complete frames seen so far, in 100-nanosecond units */
+  get duration(): number {
+    return Math.round(this.ticks);
+  }
+}
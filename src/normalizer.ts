@@ -0,0 +1,649 @@
+/**
+ * Locale-aware normalization of numbers, dates, times, currencies, units and versions in
+ * plain text input, into `<say-as>` elements or spelled-out words.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { escape, unescape } from "./xml";
+
+/**
+ * How normalized text is spoken.
+ * - `say-as`: wrapped in `<say-as>` where SSML has a matching type, spelled out otherwise
+ * - `words`: always spelled out, where the language is known
+ */
+export type NormalizationMode = 'say-as' | 'words';
+
+/** Order of day, month and year in numeric dates */
+export type DateOrder = 'mdy' | 'dmy' | 'ymd';
+
+/** Scale word after an amount, as in "$1.2M" */
+export type Magnitude = 'thousand' | 'million' | 'billion' | 'trillion';
+
+/**
+ * Spoken forms of one language. Amounts are passed as digits with an optional "." and
+ * fractional digits, e.g. "1234.5", whatever the notation of the locale.
+ */
+export interface NormalizerLanguage {
+  /** Spells an amount, e.g. "one thousand two hundred thirty-four point five" */
+  cardinal(amount: string): string;
+  /** Spells an ordinal number, e.g. "twenty-first" */
+  ordinal(value: number): string;
+  /** Spells a fraction, e.g. "three quarters" */
+  fraction(numerator: number, denominator: number): string;
+  /** Spells a date; the month is 1-based */
+  date(year: number, month: number, day: number): string;
+  /** Spells a time of day, with "am" or "pm" for the 12-hour clock */
+  time(hours: number, minutes: number, period?: 'am' | 'pm'): string;
+  /** Spells an amount of money in an ISO 4217 currency, or returns undefined if it is unknown */
+  currency(amount: string, currency: string, magnitude?: Magnitude): string | undefined;
+  /** Spells a quantity with a unit symbol such as "km/h" or "%", or returns undefined if it is unknown */
+  unit(amount: string, unit: string): string | undefined;
+  /** Spells a version number; `prefixed` is true when it was written with a "v" */
+  version(parts: string[], prefixed: boolean): string;
+}
+
+/**
+ * Conventions of the locale a text is normalized for.
+ */
+export interface NormalizationContext {
+  /** Locale of the voice, e.g. "en-US" */
+  locale?: string;
+  /** Spoken forms for the locale's language, if known */
+  language?: NormalizerLanguage;
+  /** Order of numeric dates in the locale */
+  dateOrder: DateOrder;
+  /**
+   * Parses a number written in the locale's notation, e.g. "1.234,5" in German.
+   * @returns The number as digits with an optional ".", or undefined if it is not valid
+   */
+  parseNumber(text: string): string | undefined;
+}
+
+/**
+ * How a match is spoken. In `say-as` mode `sayAs` is preferred and in `words` mode
+ * `words`; the match is left unchanged if neither is given.
+ */
+export interface Normalization {
+  /** Spoken words that replace the match */
+  words?: string;
+  /** say-as element around the match */
+  sayAs?: {
+    /** Content type, e.g. "date", "time", "cardinal", "ordinal" or "fraction" */
+    interpretAs: string;
+    /** Format of the content, e.g. "mdy" for dates */
+    format?: string;
+    /** Text of the element (default: the match) */
+    text?: string;
+  };
+}
+
+/**
+ * A pattern of text to normalize. Patterns are tried at the start of each word, in order,
+ * and must match there; their `g` and `y` flags are ignored.
+ */
+export interface NormalizationRule {
+  /** Name of the rule, for debugging */
+  name: string;
+  /** Pattern of the text, usually with the `u` flag */
+  pattern: RegExp;
+  /** Returns how the match is spoken, or undefined to try the next rule */
+  normalize(match: RegExpExecArray, context: NormalizationContext): Normalization | undefined;
+}
+
+/**
+ * Options for a text normalizer.
+ */
+export interface TextNormalizerOptions {
+  /** How normalized text is spoken (default: "say-as") */
+  mode?: NormalizationMode;
+  /** Rules in order of precedence (default: DEFAULT_NORMALIZATION_RULES) */
+  rules?: NormalizationRule[];
+  /**
+   * Spoken forms by language or locale, e.g. "de" or "en-IN", in addition to the built-in
+   * English forms. The most specific one for a locale is used.
+   */
+  languages?: Record<string, NormalizerLanguage>;
+}
+
+type LocaleFormat = { group: string; decimal: string; dateOrder: DateOrder };
+
+const NUMBER = String.raw`\d+(?:[.,'’\u00A0\u202F]\d+)*`;
+/** A match must not end inside a word or a number */
+const END = String.raw`(?![\p{L}\p{N}_]|[.,/:]\d)`;
+const WORD_CHARACTER_END = /[\p{L}\p{N}_]$/u;
+
+const MAGNITUDES: Record<string, Magnitude> = {
+  k: 'thousand', K: 'thousand', thousand: 'thousand',
+  m: 'million', M: 'million', mn: 'million', million: 'million',
+  b: 'billion', B: 'billion', bn: 'billion', billion: 'billion',
+  T: 'trillion', tn: 'trillion', trillion: 'trillion',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+/** Currency of "$" by region */
+const DOLLARS: Record<string, string> = {
+  AU: 'AUD', CA: 'CAD', HK: 'HKD', NZ: 'NZD', SG: 'SGD',
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const localeFormats = new Map<string, LocaleFormat>();
+
+/** Reads the number and date notation of a locale from Intl */
+function localeFormat(locale?: string): LocaleFormat {
+  const key = locale ?? '';
+  let format = localeFormats.get(key);
+  if (!format) {
+    format = { group: ',', decimal: '.', dateOrder: 'mdy' };
+    // Without a locale the runtime's default would make the output vary
+    if (locale) {
+      try {
+        for (const part of new Intl.NumberFormat(locale).formatToParts(12345.6)) {
+          if (part.type === 'group') {
+            format.group = part.value;
+          } else if (part.type === 'decimal') {
+            format.decimal = part.value;
+          }
+        }
+        const order = new Intl.DateTimeFormat(locale, { timeZone: 'UTC' })
+          .formatToParts(Date.UTC(2001, 10, 22))
+          .map(part => part.type[0])
+          .filter(type => type === 'd' || type === 'm' || type === 'y')
+          .join('');
+        if (order === 'dmy' || order === 'ymd') {
+          format.dateOrder = order;
+        }
+      } catch {
+        // Invalid locale
+      }
+    }
+    localeFormats.set(key, format);
+  }
+  return format;
+}
+
+function createParser({ group, decimal }: LocaleFormat): (text: string) => string | undefined {
+  // Spaces and apostrophes are written in several ways
+  const normalizeGroup = (text: string) => text.replace(/\u202F/g, '\u00A0').replace(/’/g, "'");
+  const groupSeparator = normalizeGroup(group);
+  const pattern = new RegExp(
+    `^(?:\\d{1,3}(?:${escapeRegExp(groupSeparator)}\\d{3})+|\\d+)(?:${escapeRegExp(decimal)}\\d+)?$`
+  );
+  return text => {
+    const normalized = normalizeGroup(text);
+    if (!pattern.test(normalized)) {
+      return undefined;
+    }
+    return normalized.split(groupSeparator).join('').replace(decimal, '.');
+  };
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** Singular and plural names of major and minor units */
+const ENGLISH_CURRENCIES: Record<string, [string, string, string?, string?]> = {
+  USD: ['dollar', 'dollars', 'cent', 'cents'],
+  AUD: ['dollar', 'dollars', 'cent', 'cents'],
+  CAD: ['dollar', 'dollars', 'cent', 'cents'],
+  HKD: ['dollar', 'dollars', 'cent', 'cents'],
+  NZD: ['dollar', 'dollars', 'cent', 'cents'],
+  SGD: ['dollar', 'dollars', 'cent', 'cents'],
+  EUR: ['euro', 'euros', 'cent', 'cents'],
+  GBP: ['pound', 'pounds', 'penny', 'pence'],
+  INR: ['rupee', 'rupees', 'paisa', 'paise'],
+  JPY: ['yen', 'yen'],
+  CNY: ['yuan', 'yuan'],
+  CHF: ['franc', 'francs', 'centime', 'centimes'],
+};
+
+/** Singular and plural names of units */
+const ENGLISH_UNITS: Record<string, [string, string]> = {
+  'mm': ['millimeter', 'millimeters'],
+  'cm': ['centimeter', 'centimeters'],
+  'm': ['meter', 'meters'],
+  'km': ['kilometer', 'kilometers'],
+  'ft': ['foot', 'feet'],
+  'mi': ['mile', 'miles'],
+  'mg': ['milligram', 'milligrams'],
+  'g': ['gram', 'grams'],
+  'kg': ['kilogram', 'kilograms'],
+  'lb': ['pound', 'pounds'],
+  'lbs': ['pound', 'pounds'],
+  'oz': ['ounce', 'ounces'],
+  'ml': ['milliliter', 'milliliters'],
+  'mL': ['milliliter', 'milliliters'],
+  'L': ['liter', 'liters'],
+  'ms': ['millisecond', 'milliseconds'],
+  's': ['second', 'seconds'],
+  'sec': ['second', 'seconds'],
+  'min': ['minute', 'minutes'],
+  'h': ['hour', 'hours'],
+  'hr': ['hour', 'hours'],
+  'Hz': ['hertz', 'hertz'],
+  'kHz': ['kilohertz', 'kilohertz'],
+  'MHz': ['megahertz', 'megahertz'],
+  'GHz': ['gigahertz', 'gigahertz'],
+  'KB': ['kilobyte', 'kilobytes'],
+  'MB': ['megabyte', 'megabytes'],
+  'GB': ['gigabyte', 'gigabytes'],
+  'TB': ['terabyte', 'terabytes'],
+  'W': ['watt', 'watts'],
+  'kW': ['kilowatt', 'kilowatts'],
+  'kWh': ['kilowatt hour', 'kilowatt hours'],
+  'V': ['volt', 'volts'],
+  'mAh': ['milliamp hour', 'milliamp hours'],
+  'mph': ['mile per hour', 'miles per hour'],
+  'kph': ['kilometer per hour', 'kilometers per hour'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '%': ['percent', 'percent'],
+};
+
+function englishBelowThousand(value: number): string {
+  const words: string[] = [];
+  if (value >= 100) {
+    words.push(`${ONES[Math.floor(value / 100)]} hundred`);
+    value %= 100;
+  }
+  if (value >= 20) {
+    words.push(TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : ''));
+  } else if (value > 0 || words.length === 0) {
+    words.push(ONES[value]);
+  }
+  return words.join(' ');
+}
+
+function englishInteger(digits: string): string {
+  digits = digits.replace(/^0+(?=\d)/, '');
+  if (digits.length > SCALES.length * 3) {
+    return Array.from(digits, digit => ONES[Number(digit)]).join(' ');
+  }
+  const words: string[] = [];
+  for (let end = digits.length, scale = 0; end > 0; end -= 3, scale++) {
+    const group = Number(digits.slice(Math.max(0, end - 3), end));
+    if (group > 0) {
+      words.unshift(englishBelowThousand(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+    }
+  }
+  return words.length > 0 ? words.join(' ') : 'zero';
+}
+
+function englishYear(year: number): string {
+  if (year < 1000 || year > 9999 || (year >= 2000 && year < 2010)) {
+    return englishInteger(String(year));
+  }
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) {
+    return `${englishBelowThousand(century)} hundred`;
+  }
+  return `${englishBelowThousand(century)} ${rest < 10 ? `oh ${ONES[rest]}` : englishBelowThousand(rest)}`;
+}
+
+/**
+ * English spoken forms, used for every English locale.
+ */
+export const ENGLISH_NORMALIZER_LANGUAGE: NormalizerLanguage = {
+  cardinal(amount) {
+    const [integer, fraction] = amount.split('.');
+    return englishInteger(integer)
+      + (fraction ? ` point ${Array.from(fraction, digit => ONES[Number(digit)]).join(' ')}` : '');
+  },
+
+  ordinal(value) {
+    const words = englishInteger(String(value));
+    const [, head, last] = /^(.*?)([a-z]+)$/.exec(words)!;
+    return head + (IRREGULAR_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`));
+  },
+
+  fraction(numerator, denominator) {
+    const plural = numerator !== 1;
+    let name: string;
+    if (denominator === 2) {
+      name = plural ? 'halves' : 'half';
+    } else if (denominator === 4) {
+      name = plural ? 'quarters' : 'quarter';
+    } else {
+      name = this.ordinal(denominator) + (plural ? 's' : '');
+    }
+    return `${englishInteger(String(numerator))} ${name}`;
+  },
+
+  date(year, month, day) {
+    return `${MONTHS[month - 1]} ${this.ordinal(day)}, ${englishYear(year)}`;
+  },
+
+  time(hours, minutes, period) {
+    const hour = englishInteger(String(hours));
+    const suffix = period ? ` ${period === 'am' ? 'a.m.' : 'p.m.'}` : '';
+    if (minutes === 0) {
+      if (period) {
+        return hour + suffix;
+      }
+      return hours <= 12 ? `${hour} o'clock` : `${hour} hundred`;
+    }
+    return `${hour} ${minutes < 10 ? `oh ${ONES[minutes]}` : englishBelowThousand(minutes)}${suffix}`;
+  },
+
+  currency(amount, currency, magnitude) {
+    const names = ENGLISH_CURRENCIES[currency];
+    if (!names) {
+      return undefined;
+    }
+    const [singular, plural, minorSingular, minorPlural] = names;
+    if (magnitude) {
+      return `${this.cardinal(amount)} ${magnitude} ${plural}`;
+    }
+    const [integer, fraction] = amount.split('.');
+    if (fraction?.length !== 2 || !minorSingular) {
+      return `${this.cardinal(amount)} ${amount === '1' ? singular : plural}`;
+    }
+    const major = Number(integer);
+    const minor = Number(fraction);
+    const parts: string[] = [];
+    if (major > 0 || minor === 0) {
+      parts.push(`${englishInteger(integer)} ${major === 1 ? singular : plural}`);
+    }
+    if (minor > 0) {
+      parts.push(`${englishBelowThousand(minor)} ${minor === 1 ? minorSingular : minorPlural}`);
+    }
+    return parts.join(' and ');
+  },
+
+  unit(amount, unit) {
+    const plural = amount !== '1';
+    const names = ENGLISH_UNITS[unit];
+    if (names) {
+      return `${this.cardinal(amount)} ${names[plural ? 1 : 0]}`;
+    }
+    const [dividend, divisor] = unit.split('/');
+    if (divisor && ENGLISH_UNITS[dividend] && ENGLISH_UNITS[divisor]) {
+      return `${this.cardinal(amount)} ${ENGLISH_UNITS[dividend][plural ? 1 : 0]} per ${ENGLISH_UNITS[divisor][0]}`;
+    }
+    return undefined;
+  },
+
+  version(parts, prefixed) {
+    return (prefixed ? 'version ' : '') + parts.map(part => englishInteger(part)).join(' point ');
+  },
+};
+
+function validDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dateNormalization(year: number, month: number, day: number, format: DateOrder, context: NormalizationContext): Normalization | undefined {
+  if (!validDate(year, month, day)) {
+    return undefined;
+  }
+  return {
+    sayAs: { interpretAs: 'date', format },
+    words: context.language?.date(year, month, day),
+  };
+}
+
+/**
+ * The built-in rules, in order of precedence: ISO and numeric dates, times, currencies,
+ * "v"-prefixed versions, ordinals (English), quantities with units and percentages,
+ * fractions, numbers with group or decimal separators, and dotted versions.
+ */
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    name: 'iso-date',
+    pattern: new RegExp(String.raw`(\d{4})([-/.])(\d{1,2})\2(\d{1,2})${END}`, 'u'),
+    normalize: (match, context) => dateNormalization(Number(match[1]), Number(match[3]), Number(match[4]), 'ymd', context),
+  },
+  {
+    name: 'numeric-date',
+    pattern: new RegExp(String.raw`(\d{1,2})([/.-])(\d{1,2})\2(\d{4})${END}`, 'u'),
+    normalize(match, context) {
+      const format = context.dateOrder === 'dmy' ? 'dmy' : 'mdy';
+      const [first, second] = [Number(match[1]), Number(match[3])];
+      const [month, day] = format === 'dmy' ? [second, first] : [first, second];
+      return dateNormalization(Number(match[4]), month, day, format, context);
+    },
+  },
+  {
+    name: 'time',
+    pattern: new RegExp(String.raw`(\d{1,2}):(\d{2})(?:\s?([AaPp])\.?[Mm]\.?(?![\p{L}\p{N}_]))?${END}`, 'u'),
+    normalize(match, context) {
+      const hours = Number(match[1]);
+      const minutes = Number(match[2]);
+      const period = match[3] ? (match[3].toLowerCase() === 'a' ? 'am' : 'pm') : undefined;
+      if (minutes > 59 || hours > (period ? 12 : 23) || (period && hours === 0)) {
+        return undefined;
+      }
+      return {
+        sayAs: { interpretAs: 'time', format: period ? 'hms12' : 'hms24' },
+        words: context.language?.time(hours, minutes, period),
+      };
+    },
+  },
+  {
+    name: 'currency-symbol',
+    pattern: new RegExp(
+      String.raw`([$€£¥₹])\s?(${NUMBER})(?:\s?(thousand|million|billion|trillion|mn|bn|tn|[kKmMbBT])(?![\p{L}\p{N}_]))?${END}`,
+      'u'
+    ),
+    normalize(match, context) {
+      const amount = context.parseNumber(match[2]);
+      if (amount === undefined) {
+        return undefined;
+      }
+      const region = /-([A-Z]{2})\b/i.exec(context.locale ?? '')?.[1].toUpperCase();
+      const currency = match[1] === '$' ? DOLLARS[region ?? ''] ?? 'USD' : CURRENCY_SYMBOLS[match[1]];
+      const words = context.language?.currency(amount, currency, match[3] ? MAGNITUDES[match[3]] : undefined);
+      return words === undefined ? undefined : { words };
+    },
+  },
+  {
+    name: 'currency-code',
+    pattern: new RegExp(String.raw`(${NUMBER})\s?([A-Z]{3}|[$€£¥₹])${END}`, 'u'),
+    normalize(match, context) {
+      const amount = context.parseNumber(match[1]);
+      const currency = CURRENCY_SYMBOLS[match[2]] ?? match[2];
+      const words = amount === undefined ? undefined : context.language?.currency(amount, currency);
+      return words === undefined ? undefined : { words };
+    },
+  },
+  {
+    name: 'prefixed-version',
+    pattern: new RegExp(String.raw`[vV](\d+(?:\.\d+)*)${END}`, 'u'),
+    normalize: (match, context) => {
+      const words = context.language?.version(match[1].split('.'), true);
+      return words === undefined ? undefined : { words };
+    },
+  },
+  {
+    name: 'ordinal',
+    pattern: new RegExp(String.raw`(\d+)(st|nd|rd|th)${END}`, 'u'),
+    normalize(match, context) {
+      if (!/^en(?:-|$)/i.test(context.locale ?? '')) {
+        return undefined;
+      }
+      const value = Number(match[1]);
+      return {
+        sayAs: { interpretAs: 'ordinal' },
+        words: context.language?.ordinal(value),
+      };
+    },
+  },
+  {
+    name: 'unit',
+    pattern: new RegExp(String.raw`(${NUMBER})\s?(%|°[CF]|[\p{L}µ]+(?:\/[\p{L}µ]+)?)${END}`, 'u'),
+    normalize(match, context) {
+      const amount = context.parseNumber(match[1]);
+      const words = amount === undefined ? undefined : context.language?.unit(amount, match[2]);
+      return words === undefined ? undefined : { words };
+    },
+  },
+  {
+    name: 'fraction',
+    pattern: new RegExp(String.raw`(\d{1,3})\/(\d{1,3})${END}`, 'u'),
+    normalize(match, context) {
+      const [numerator, denominator] = [Number(match[1]), Number(match[2])];
+      if (denominator < 2) {
+        return undefined;
+      }
+      return {
+        sayAs: { interpretAs: 'fraction' },
+        words: context.language?.fraction(numerator, denominator),
+      };
+    },
+  },
+  {
+    name: 'number',
+    pattern: new RegExp(String.raw`${NUMBER}${END}`, 'u'),
+    normalize(match, context) {
+      const amount = context.parseNumber(match[0]);
+      // Plain integers are read well already
+      if (amount === undefined || /^\d+$/.test(match[0])) {
+        return undefined;
+      }
+      return {
+        sayAs: { interpretAs: 'cardinal' },
+        words: context.language?.cardinal(amount),
+      };
+    },
+  },
+  {
+    name: 'version',
+    pattern: new RegExp(String.raw`\d+(?:\.\d+){2,}${END}`, 'u'),
+    normalize(match, context) {
+      const words = context.language?.version(match[0].split('.'), false);
+      return words === undefined ? undefined : { words };
+    },
+  },
+];
+
+/**
+ * Normalizes numbers, dates, times, currencies, units and versions in text for the
+ * language of a voice, e.g. "$1.2M" to "one point two million dollars" or "3/4" to
+ * `<say-as interpret-as='fraction'>3/4</say-as>`. Number and date notation follow the
+ * locale, so "1.234,5" is a number in German and "3/4/2024" is the 3rd of April in
+ * British English.
+ *
+ * @example
+ * ```typescript
+ * const normalizer = new TextNormalizer({ mode: 'words' });
+ * const communicate = new Communicate('Update to v2.3.1 by 3/4/2024.', { normalizer });
+ *
+ * normalizer.apply('10km/h', 'en-US'); // "ten kilometers per hour"
+ * ```
+ */
+export class TextNormalizer {
+  public readonly mode: NormalizationMode;
+  private readonly rules: { rule: NormalizationRule; pattern: RegExp }[];
+  private readonly languages: Record<string, NormalizerLanguage>;
+
+  /**
+   * @param options - Mode, rules and spoken forms by language
+   */
+  constructor(options: TextNormalizerOptions = {}) {
+    this.mode = options.mode ?? 'say-as';
+    this.rules = (options.rules ?? DEFAULT_NORMALIZATION_RULES).map(rule => ({
+      rule,
+      pattern: new RegExp(rule.pattern.source, rule.pattern.flags.replace(/[gy]/g, '') + 'y'),
+    }));
+    this.languages = { en: ENGLISH_NORMALIZER_LANGUAGE };
+    for (const [locale, language] of Object.entries(options.languages ?? {})) {
+      this.languages[locale.toLowerCase()] = language;
+    }
+  }
+
+  /**
+   * Normalizes the text of SSML content for a locale. Text inside elements, such as
+   * those added by a lexicon, is left unchanged.
+   *
+   * @param content - XML-escaped text, optionally with elements
+   * @param locale - Locale of the voice, e.g. "en-US"
+   * @returns SSML content with `<say-as>` elements or spelled-out words
+   */
+  apply(content: string, locale?: string): string {
+    const context = this.context(locale);
+    let depth = 0;
+    return content.split(/(<[^>]*>)/).map((part, index) => {
+      if (index % 2 === 1) {
+        if (!part.endsWith('/>')) {
+          depth += part.startsWith('</') ? -1 : 1;
+        }
+        return part;
+      }
+      return depth === 0 && part ? this.normalize(unescape(part), context) : part;
+    }).join('');
+  }
+
+  private context(locale?: string): NormalizationContext {
+    const format = localeFormat(locale);
+    const tags = (locale ?? '').toLowerCase().split('-');
+    let language: NormalizerLanguage | undefined;
+    for (let length = tags.length; length > 0 && !language; length--) {
+      language = this.languages[tags.slice(0, length).join('-')];
+    }
+    return { locale, language, dateOrder: format.dateOrder, parseNumber: createParser(format) };
+  }
+
+  /** Normalizes plain text, returning escaped content */
+  private normalize(text: string, context: NormalizationContext): string {
+    const parts: string[] = [];
+    let plainStart = 0;
+    let position = 0;
+    while (position < text.length) {
+      const replacement = WORD_CHARACTER_END.test(text.slice(Math.max(0, position - 2), position))
+        ? undefined
+        : this.match(text, position, context);
+      if (replacement) {
+        parts.push(escape(text.slice(plainStart, position)), replacement.content);
+        plainStart = position = replacement.end;
+      } else {
+        position++;
+      }
+    }
+    parts.push(escape(text.slice(plainStart)));
+    return parts.join('');
+  }
+
+  private match(text: string, position: number, context: NormalizationContext): { content: string; end: number } | undefined {
+    for (const { rule, pattern } of this.rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+      if (!match || match[0].length === 0) {
+        continue;
+      }
+      const normalization = rule.normalize(match, context);
+      const { sayAs, words } = normalization ?? {};
+      let content: string | undefined;
+      if (sayAs && (this.mode === 'say-as' || words === undefined)) {
+        const format = sayAs.format !== undefined ? ` format='${escape(sayAs.format)}'` : '';
+        content = `<say-as interpret-as='${escape(sayAs.interpretAs)}'${format}>${escape(sayAs.text ?? match[0])}</say-as>`;
+      } else if (words !== undefined) {
+        content = escape(words);
+      }
+      if (content !== undefined) {
+        return { content, end: position + match[0].length };
+      }
+    }
+    return undefined;
+  }
+}
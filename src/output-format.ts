@@ -0,0 +1,137 @@
+import { ValueError } from "./exceptions";
+import { Mp3DurationCounter } from "./mp3";
+
+/**
+ * Audio output formats supported by the Microsoft Edge TTS service.
+ */
+export const OUTPUT_FORMATS = [
+  "audio-24khz-48kbitrate-mono-mp3",
+  "audio-24khz-96kbitrate-mono-mp3",
+  "audio-24khz-160kbitrate-mono-mp3",
+  "audio-48khz-96kbitrate-mono-mp3",
+  "audio-48khz-192kbitrate-mono-mp3",
+  "webm-24khz-16bit-mono-opus",
+  "ogg-16khz-16bit-mono-opus",
+  "ogg-24khz-16bit-mono-opus",
+  "ogg-48khz-16bit-mono-opus",
+  "raw-8khz-8bit-mono-mulaw",
+  "raw-8khz-16bit-mono-pcm",
+  "raw-16khz-16bit-mono-pcm",
+  "raw-24khz-16bit-mono-pcm",
+  "raw-48khz-16bit-mono-pcm",
+  "riff-8khz-8bit-mono-mulaw",
+  "riff-8khz-16bit-mono-pcm",
+  "riff-16khz-16bit-mono-pcm",
+  "riff-24khz-16bit-mono-pcm",
+  "riff-48khz-16bit-mono-pcm",
+] as const;
+
+/**
+ * Audio output format requested from the service in the speech.config message.
+ */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+type Container = "mp3" | "webm" | "ogg" | "raw" | "riff";
+
+const CONTAINERS: Record<Container, { mimeType: string; contentTypes: string[] }> = {
+  mp3: { mimeType: "audio/mpeg", contentTypes: ["audio/mpeg"] },
+  webm: { mimeType: "audio/webm", contentTypes: ["audio/webm"] },
+  ogg: { mimeType: "audio/ogg", contentTypes: ["audio/ogg"] },
+  raw: { mimeType: "audio/pcm", contentTypes: ["audio/x-wav", "audio/wav", "audio/pcm", "audio/basic"] },
+  riff: { mimeType: "audio/wav", contentTypes: ["audio/x-wav", "audio/wav"] },
+};
+
+function containerOf(format: OutputFormat): Container {
+  if (format.endsWith("-mp3")) return "mp3";
+  return format.split("-", 1)[0] as Container;
+}
+
+/**
+ * Validates an output format name.
+ * @param format - Output format to check
+ * @returns The format, typed as an OutputFormat
+ * @throws {ValueError} If the format is not supported by the service
+ */
+export function validateOutputFormat(format: string): OutputFormat {
+  if (typeof format !== 'string') {
+    throw new TypeError('outputFormat must be a string');
+  }
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new ValueError(`Invalid outputFormat '${format}'.`);
+  }
+  return format as OutputFormat;
+}
+
+/**
+ * Returns the MIME type to use for audio produced in the given output format.
+ * @param format - Output format
+ * @returns MIME type suitable for a Blob or an HTTP Content-Type header
+ */
+export function getMimeType(format: OutputFormat): string {
+  if (format.endsWith("-mulaw") && containerOf(format) === "raw") {
+    return "audio/basic";
+  }
+  return CONTAINERS[containerOf(format)].mimeType;
+}
+
+/**
+ * Checks whether the Content-Type of an audio frame matches the requested output format.
+ * Parameters such as `codecs=opus` are ignored.
+ * @param format - Output format that was requested
+ * @param contentType - Content-Type header of the binary audio frame
+ * @returns True if the frame carries audio in the requested format
+ */
+export function isExpectedContentType(format: OutputFormat, contentType: string | undefined): boolean {
+  if (!contentType) {
+    return false;
+  }
+  const baseType = contentType.split(";", 1)[0].trim().toLowerCase();
+  return CONTAINERS[containerOf(format)].contentTypes.includes(baseType);
+}
+
+/**
+ * Measures the playback duration of the audio received for one turn.
+ */
+export interface AudioDurationCounter {
+  /** Adds the next piece of audio data */
+  push(data: Uint8Array): void;
+  /** Duration of the audio seen so far, in 100-nanosecond units */
+  readonly duration: number;
+}
+
+/** Size of the RIFF/WAVE header the service puts before each turn's PCM data */
+const RIFF_HEADER_LENGTH = 44;
+
+class PcmDurationCounter implements AudioDurationCounter {
+  private bytes = 0;
+
+  constructor(private readonly bytesPerSecond: number, private readonly headerLength: number) { }
+
+  push(data: Uint8Array) {
+    this.bytes += data.length;
+  }
+
+  get duration(): number {
+    return Math.round(Math.max(this.bytes - this.headerLength, 0) / this.bytesPerSecond * 10_000_000);
+  }
+}
+
+/**
+ * Creates a counter that measures the exact duration of audio in the given output format.
+ * @param format - Output format of the audio
+ * @returns A counter, or null for container formats whose duration is not measured (Opus)
+ */
+export function createAudioDurationCounter(format: OutputFormat): AudioDurationCounter | null {
+  const container = containerOf(format);
+  if (container === "mp3") {
+    return new Mp3DurationCounter();
+  }
+  if (container === "raw" || container === "riff") {
+    const [, khz, bits] = /-(\d+)khz-(\d+)bit-/.exec(format)!;
+    return new PcmDurationCounter(
+      Number(khz) * 1000 * Number(bits) / 8,
+      container === "riff" ? RIFF_HEADER_LENGTH : 0,
+    );
+  }
+  return null;
+}
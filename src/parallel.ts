@@ -0,0 +1,181 @@
+/**
+ * Ordered reassembly of text chunks synthesized in parallel, shared by all Communicate implementations.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { AbortError, ValueError } from "./exceptions";
+
+type OrderedChunk = { type: string; offset?: number };
+
+/**
+ * Synthesis of a single text chunk. Offsets of the yielded chunks are relative
+ * to the start of the text chunk.
+ */
+export interface ChunkSynthesis<T> {
+  /** Chunks of the synthesis, with offsets relative to the text chunk */
+  chunks: AsyncGenerator<T, void, unknown>;
+  /** Duration of the text chunk in 100-nanosecond units, read once `chunks` is done */
+  duration: () => number;
+}
+
+type Slot<T> = {
+  chunks: T[];
+  done: boolean;
+  error?: unknown;
+  /** Stopped because another text chunk failed or synthesis was aborted */
+  interrupted?: boolean;
+  duration: number;
+};
+
+/**
+ * Validates the number of text chunks synthesized at once.
+ * @param concurrency - Requested concurrency
+ * @returns The concurrency
+ * @throws {ValueError} If the concurrency is not a positive integer
+ */
+export function validateConcurrency(concurrency: number): number {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValueError(`Invalid concurrency '${concurrency}'. Must be a positive integer.`);
+  }
+  return concurrency;
+}
+
+/**
+ * Synthesizes text chunks on up to `concurrency` connections at once and yields the
+ * results in text order. Chunks that finish early are buffered, and at most `concurrency`
+ * text chunks are in flight or buffered at a time. Offsets are shifted by the total
+ * duration of the preceding text chunks.
+ *
+ * @param texts - Text chunks in order
+ * @param concurrency - Number of text chunks synthesized at once
+ * @param synthesize - Starts the synthesis of one text chunk on the given worker (0 to concurrency - 1)
+ * @param signal - Signal that cancels synthesis
+ * @yields Chunks of all text chunks, in order
+ */
+export async function* synthesizeInOrder<U, T extends OrderedChunk>(
+  texts: Iterable<U>,
+  concurrency: number,
+  synthesize: (text: U, signal: AbortSignal, worker: number) => ChunkSynthesis<T>,
+  signal?: AbortSignal,
+): AsyncGenerator<T, void, unknown> {
+  const iterator = texts[Symbol.iterator]();
+  const slots: Slot<T>[] = [];
+  let consumed = 0;
+  let exhausted = false;
+  let activeWorkers = 0;
+  let notify: (() => void) | null = null;
+
+  // Stops the workers when the consumer is done, fails or the signal is aborted
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  const wake = () => {
+    if (notify) notify();
+  };
+  const wait = () => new Promise<void>(resolve => {
+    notify = () => {
+      notify = null;
+      resolve();
+    };
+  });
+
+  const worker = async (index: number) => {
+    while (!controller.signal.aborted) {
+      // Bound the number of text chunks that are in flight or buffered
+      if (slots.length - consumed >= concurrency) {
+        await waitForConsumer();
+        continue;
+      }
+      const slot: Slot<T> = { chunks: [], done: false, duration: 0 };
+      try {
+        const item = iterator.next();
+        if (item.done) {
+          exhausted = true;
+          return;
+        }
+        slots.push(slot);
+        const synthesis = synthesize(item.value, controller.signal, index);
+        for await (const chunk of synthesis.chunks) {
+          slot.chunks.push(chunk);
+          wake();
+        }
+        slot.duration = synthesis.duration();
+      } catch (e) {
+        if (!slots.includes(slot)) slots.push(slot);
+        if (controller.signal.aborted) {
+          // The error is a consequence of the abort, not its cause
+          slot.interrupted = true;
+        } else {
+          slot.error = e;
+          // Text chunks after a failed one are never yielded
+          exhausted = true;
+          controller.abort();
+        }
+      } finally {
+        slot.done = true;
+        wake();
+      }
+    }
+  };
+
+  let consumerWaiters: (() => void)[] = [];
+  const waitForConsumer = () => new Promise<void>(resolve => {
+    consumerWaiters.push(resolve);
+  });
+  const wakeWorkers = () => {
+    const waiters = consumerWaiters;
+    consumerWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+  controller.signal.addEventListener('abort', wakeWorkers);
+
+  for (let i = 0; i < concurrency; i++) {
+    activeWorkers++;
+    worker(i).finally(() => {
+      activeWorkers--;
+      wake();
+    });
+  }
+
+  try {
+    let offsetCompensation = 0;
+    for (let index = 0; ; index++) {
+      while (index >= slots.length && !(exhausted && activeWorkers === 0) && !controller.signal.aborted) {
+        await wait();
+      }
+      if (signal?.aborted) {
+        throw new AbortError('Synthesis was aborted.');
+      }
+      const slot = slots[index];
+      if (!slot) {
+        break;
+      }
+
+      let read = 0;
+      while (true) {
+        while (read < slot.chunks.length) {
+          const chunk = slot.chunks[read++];
+          yield chunk.offset === undefined ? chunk : { ...chunk, offset: chunk.offset + offsetCompensation };
+        }
+        if (slot.done) break;
+        await wait();
+      }
+      if (slot.error) {
+        throw slot.error;
+      }
+      if (slot.interrupted) {
+        // Rethrow the failure of a later text chunk rather than the abort it caused
+        throw slots.find(other => other.error)?.error ?? new AbortError('Synthesis was aborted.');
+      }
+
+      offsetCompensation += slot.duration;
+      slot.chunks = [];
+      consumed++;
+      wakeWorkers();
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  }
+}
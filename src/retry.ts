@@ -0,0 +1,129 @@
+/**
+ * Retry policy for transient synthesis failures, shared by all Communicate implementations.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { AbortError, NoAudioReceived, WebSocketError } from "./exceptions";
+
+/**
+ * Configuration of the retry policy applied to each text chunk.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts per text chunk, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number;
+  /** Upper bound for the delay between attempts in milliseconds (default: 8000) */
+  maxDelay?: number;
+  /** Factor the delay is multiplied by after each attempt (default: 2) */
+  backoffFactor?: number;
+  /** Fraction of each delay that is randomized, from 0 (none) to 1 (full jitter) (default: 0.5) */
+  jitter?: number;
+  /**
+   * Decides whether a failed attempt is retried.
+   * Defaults to {@link isRetryableError}.
+   */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/** Retry options with all defaults filled in */
+export type RetryPolicy = Required<RetryOptions>;
+
+/**
+ * Default classifier: retries WebSocket errors (including dropped connections)
+ * and turns that returned no audio. Cancellation and validation errors are never retried,
+ * nor are handshakes rejected with a client error status other than 408 or 429.
+ * @param error - Error thrown by a synthesis attempt
+ * @returns True if the attempt should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AbortError) {
+    return false;
+  }
+  if (error instanceof WebSocketError && error.status !== undefined) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return error instanceof WebSocketError || error instanceof NoAudioReceived;
+}
+
+/**
+ * Fills in defaults for a retry configuration. Without a configuration,
+ * each chunk is attempted once.
+ * @param options - User supplied retry options
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(options?: RetryOptions): RetryPolicy {
+  return {
+    maxAttempts: options ? options.maxAttempts ?? 3 : 1,
+    initialDelay: options?.initialDelay ?? 500,
+    maxDelay: options?.maxDelay ?? 8000,
+    backoffFactor: options?.backoffFactor ?? 2,
+    jitter: Math.min(Math.max(options?.jitter ?? 0.5, 0), 1),
+    isRetryable: options?.isRetryable ?? isRetryableError,
+  };
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter.
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (starting at 1)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.initialDelay * policy.backoffFactor ** (attempt - 1));
+  return delay * (1 - policy.jitter * Math.random());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('Synthesis was aborted.'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Synthesis was aborted.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs the synthesis of one text chunk, retrying it according to the policy.
+ *
+ * A chunk is only retried while none of its output has been yielded: a new attempt
+ * is not guaranteed to produce the same audio, so it cannot resume a partial one.
+ *
+ * @param attempt - Starts one synthesis attempt of the chunk
+ * @param policy - Retry policy
+ * @param onRetry - Called before each retry, to reset per-chunk timing state
+ * @param signal - Signal that cancels waiting between attempts
+ * @yields Chunks of the successful attempt
+ */
+export async function* withRetry<T>(
+  attempt: () => AsyncGenerator<T, void, unknown>,
+  policy: RetryPolicy,
+  onRetry: () => void,
+  signal?: AbortSignal,
+): AsyncGenerator<T, void, unknown> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    let yielded = false;
+    try {
+      for await (const message of attempt()) {
+        yielded = true;
+        yield message;
+      }
+      return;
+    } catch (e) {
+      if (yielded || attemptNumber >= policy.maxAttempts || !policy.isRetryable(e, attemptNumber)) {
+        throw e;
+      }
+      onRetry();
+      await sleep(retryDelay(policy, attemptNumber), signal);
+    }
+  }
+}
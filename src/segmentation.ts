@@ -0,0 +1,241 @@
+/**
+ * Readability-aware grouping of word timings into subtitle cues, following broadcast
+ * caption guidelines (line length, line count, reading speed, cue duration and gaps).
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+
+/**
+ * Rules for SubMaker.segment(). Durations are in milliseconds.
+ */
+export interface SegmentationOptions {
+  /** Maximum characters per line (default: 42) */
+  maxCharsPerLine?: number;
+  /** Maximum lines per cue (default: 2) */
+  maxLines?: number;
+  /** Maximum reading speed in characters per second, excluding line breaks (default: 17) */
+  maxCharsPerSecond?: number;
+  /** Minimum cue duration (default: 833, five sixths of a second) */
+  minDuration?: number;
+  /** Maximum cue duration (default: 7000) */
+  maxDuration?: number;
+  /** Minimum gap between consecutive cues (default: 83, two frames at 24 fps) */
+  minGap?: number;
+  /** Prefer ending cues after punctuation, and always after sentence-ending punctuation (default: true) */
+  splitAtPunctuation?: boolean;
+}
+
+/**
+ * A rule that could not be satisfied for a cue.
+ */
+export interface SegmentationIssue {
+  /** Index of the cue, starting at 1 */
+  cue: number;
+  /** The rule that is violated */
+  rule: 'maxCharsPerLine' | 'maxLines' | 'maxCharsPerSecond' | 'minDuration' | 'maxDuration' | 'minGap';
+  /** Description of the violation */
+  message: string;
+}
+
+/** Text with start and end times in 100-nanosecond units */
+export interface TimedText {
+  start: number;
+  end: number;
+  content: string;
+  /** Timing of the individual words, if the text has more than one */
+  words?: TimedText[];
+}
+
+type Rules = Required<SegmentationOptions>;
+
+const TICKS_PER_MS = 10_000;
+
+const SENTENCE_END = /[.!?。！？…]["'”’)\]]*$/;
+const CLAUSE_END = /[,;:，、；：]["'”’)\]]*$/;
+
+function resolveRules(options: SegmentationOptions): Rules {
+  const rules: Rules = {
+    maxCharsPerLine: options.maxCharsPerLine ?? 42,
+    maxLines: options.maxLines ?? 2,
+    maxCharsPerSecond: options.maxCharsPerSecond ?? 17,
+    minDuration: options.minDuration ?? 833,
+    maxDuration: options.maxDuration ?? 7000,
+    minGap: options.minGap ?? 83,
+    splitAtPunctuation: options.splitAtPunctuation ?? true,
+  };
+  for (const key of ['maxCharsPerLine', 'maxLines', 'maxCharsPerSecond', 'maxDuration'] as const) {
+    if (!(rules[key] > 0)) {
+      throw new ValueError(`Invalid ${key} '${rules[key]}'. Must be a positive number.`);
+    }
+  }
+  for (const key of ['minDuration', 'minGap'] as const) {
+    if (!(rules[key] >= 0)) {
+      throw new ValueError(`Invalid ${key} '${rules[key]}'. Must be a non-negative number.`);
+    }
+  }
+  if (rules.minDuration > rules.maxDuration) {
+    throw new ValueError('minDuration must not be greater than maxDuration.');
+  }
+  return rules;
+}
+
+/**
+ * Breaks words into lines of at most `maxChars` characters. Two-line results are
+ * balanced so both lines have a similar length.
+ * @returns The lines, possibly more than allowed if the words do not fit
+ */
+function wrapLines(words: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length === 2) {
+    let best = lines;
+    let bestLength = Math.max(lines[0].length, lines[1].length);
+    for (let i = 1; i < words.length; i++) {
+      const candidate = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+      const length = Math.max(candidate[0].length, candidate[1].length);
+      if (length < bestLength) {
+        best = candidate;
+        bestLength = length;
+      }
+    }
+    return best;
+  }
+  return lines;
+}
+
+/**
+ * Returns the number of words to keep in a full cue: up to the last clause punctuation in
+ * its second half, or all of them.
+ */
+function clauseSplit(group: TimedText[], splitAtPunctuation: boolean): number {
+  if (splitAtPunctuation) {
+    for (let i = group.length - 2; i + 1 >= group.length / 2; i--) {
+      if (CLAUSE_END.test(group[i].content)) return i + 1;
+    }
+  }
+  return group.length;
+}
+
+function readingLength(content: string): number {
+  return content.replace(/\n/g, '').length;
+}
+
+/**
+ * Groups word timings into cues.
+ *
+ * A cue ends before a sentence start, after sentence-ending punctuation, and before a word
+ * that would break the line, line count or duration limits. In the latter case the cue
+ * ends after clause punctuation in its second half instead, if there is any. Cue ends are
+ * then moved to keep the minimum gap and extended into the following silence to reach the
+ * minimum duration and the maximum reading speed.
+ *
+ * @param words - Word timings in playback order
+ * @param sentenceStarts - Start times of sentences, from SentenceBoundary events
+ * @param options - Segmentation rules
+ * @returns The cues, and the rules that could not be satisfied
+ */
+export function segmentWords(
+  words: TimedText[],
+  sentenceStarts: number[],
+  options: SegmentationOptions = {},
+): { cues: TimedText[]; issues: SegmentationIssue[] } {
+  const rules = resolveRules(options);
+  const maxDuration = rules.maxDuration * TICKS_PER_MS;
+
+  const sentenceBreak = (i: number) =>
+    sentenceStarts.some(start => words[i - 1].start < start && start <= words[i].start);
+  const fits = (group: TimedText[]) =>
+    wrapLines(group.map(word => word.content), rules.maxCharsPerLine).length <= rules.maxLines &&
+    group[group.length - 1].end - group[0].start <= maxDuration;
+
+  // Group the words
+  const groups: TimedText[][] = [];
+  let group: TimedText[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (group.length > 0) {
+      const previous = group[group.length - 1].content;
+      if (sentenceBreak(i) || (rules.splitAtPunctuation && SENTENCE_END.test(previous))) {
+        groups.push(group);
+        group = [];
+      } else {
+        while (group.length > 0 && !fits([...group, word])) {
+          const split = clauseSplit(group, rules.splitAtPunctuation);
+          groups.push(group.slice(0, split));
+          group = group.slice(split);
+        }
+      }
+    }
+    group.push(word);
+  }
+  if (group.length > 0) groups.push(group);
+
+  const cues: TimedText[] = groups.map(words => ({
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    content: wrapLines(words.map(word => word.content), rules.maxCharsPerLine).join('\n'),
+    words: words.flatMap(word => word.words ?? [{ start: word.start, end: word.end, content: word.content }]),
+  }));
+
+  // Adjust the timing
+  const minGap = rules.minGap * TICKS_PER_MS;
+  const minDuration = rules.minDuration * TICKS_PER_MS;
+  cues.forEach((cue, i) => {
+    const limit = i + 1 < cues.length ? cues[i + 1].start - minGap : Infinity;
+    if (cue.end > limit) {
+      cue.end = Math.max(limit, cue.start);
+    }
+    const readingTime = readingLength(cue.content) / rules.maxCharsPerSecond * 10_000_000;
+    const wanted = Math.min(Math.max(minDuration, readingTime), maxDuration);
+    if (cue.end - cue.start < wanted) {
+      cue.end = Math.max(cue.end, Math.min(cue.start + wanted, limit));
+    }
+  });
+
+  return { cues, issues: checkRules(cues, rules) };
+}
+
+function checkRules(cues: TimedText[], rules: Rules): SegmentationIssue[] {
+  const issues: SegmentationIssue[] = [];
+  cues.forEach((cue, i) => {
+    const report = (rule: SegmentationIssue['rule'], message: string) => issues.push({ cue: i + 1, rule, message });
+    const lines = cue.content.split('\n');
+    const duration = (cue.end - cue.start) / TICKS_PER_MS;
+
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > rules.maxCharsPerLine) {
+      report('maxCharsPerLine', `Line of ${longest} characters exceeds ${rules.maxCharsPerLine}.`);
+    }
+    if (lines.length > rules.maxLines) {
+      report('maxLines', `${lines.length} lines exceed ${rules.maxLines}.`);
+    }
+    const speed = duration > 0 ? readingLength(cue.content) / (duration / 1000) : Infinity;
+    if (speed > rules.maxCharsPerSecond) {
+      report('maxCharsPerSecond', `Reading speed of ${speed.toFixed(1)} characters per second exceeds ${rules.maxCharsPerSecond}.`);
+    }
+    if (duration < rules.minDuration) {
+      report('minDuration', `Duration of ${Math.round(duration)} ms is below ${rules.minDuration} ms.`);
+    }
+    if (duration > rules.maxDuration) {
+      report('maxDuration', `Duration of ${Math.round(duration)} ms exceeds ${rules.maxDuration} ms.`);
+    }
+    if (i + 1 < cues.length) {
+      const gap = (cues[i + 1].start - cue.end) / TICKS_PER_MS;
+      if (gap < rules.minGap) {
+        report('minGap', `Gap of ${Math.round(gap)} ms to the next cue is below ${rules.minGap} ms.`);
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,150 @@
+/**
+ * Maps word and sentence boundaries back to character offsets in the text passed to a
+ * Communicate instance, across character cleanup, XML escaping, chunk splitting and trimming.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+/**
+ * Character range of a boundary in the original text, as UTF-16 code unit indices.
+ */
+export interface SourceRange {
+  /** Index of the first character */
+  sourceStart: number;
+  /** Index after the last character */
+  sourceEnd: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Locates the boundaries of one text chunk. Words and sentences are searched in order,
+ * each from the end of the previous match of the same type.
+ */
+export class ChunkSource {
+  private wordCursor = 0;
+  private sentenceCursor = 0;
+
+  /**
+   * @param text - Unescaped text of the chunk
+   * @param offsets - Index in the original text of each character of the chunk, plus one
+   *   for the end of the chunk
+   */
+  constructor(private readonly text: string, private readonly offsets: number[]) {}
+
+  /**
+   * Finds the next occurrence of boundary text in the chunk.
+   * @param type - Type of the boundary, "WordBoundary" or "SentenceBoundary"
+   * @param text - Spoken text of the boundary
+   * @returns The range in the original text, or undefined if the text is not found
+   */
+  locate(type: string, text: string): SourceRange | undefined {
+    const cursor = type === 'WordBoundary' ? this.wordCursor : this.sentenceCursor;
+    let index = text ? this.text.indexOf(text, cursor) : -1;
+    let length = text.length;
+    if (index < 0 && text.trim()) {
+      // The service may normalize whitespace, e.g. line breaks in sentences
+      const pattern = new RegExp(text.trim().split(/\s+/).map(escapeRegExp).join('\\s+'), 'g');
+      pattern.lastIndex = cursor;
+      const match = pattern.exec(this.text);
+      if (match) {
+        index = match.index;
+        length = match[0].length;
+      }
+    }
+    if (index < 0) {
+      return undefined;
+    }
+
+    if (type === 'WordBoundary') {
+      this.wordCursor = index + length;
+    } else {
+      this.sentenceCursor = index + length;
+    }
+    return {
+      sourceStart: this.offsets[index],
+      // The character after the match may follow removed characters
+      sourceEnd: this.offsets[index + length - 1] + 1,
+    };
+  }
+
+  /** Restarts the search, for a chunk that is synthesized again */
+  reset(): void {
+    this.wordCursor = 0;
+    this.sentenceCursor = 0;
+  }
+}
+
+/**
+ * Locates the text chunks sent to the service in the original text.
+ *
+ * @example
+ * ```typescript
+ * const locator = new SourceLocator(text, removeIncompatibleCharacters);
+ * for (const chunk of splitTextByByteLength(escape(removeIncompatibleCharacters(text)), 4096)) {
+ *   const source = locator.next(chunk.toString());
+ *   source.locate('WordBoundary', 'Hello'); // { sourceStart: 0, sourceEnd: 5 }
+ * }
+ * ```
+ */
+export class SourceLocator {
+  private readonly cleaned: string;
+  /** Index in the original text of each character of the cleaned text */
+  private readonly offsets: number[] = [];
+  private position = 0;
+
+  /**
+   * @param source - The original text
+   * @param clean - The character cleanup applied before escaping; it must replace or
+   *   remove characters one at a time
+   */
+  constructor(source: string, clean: (text: string) => string) {
+    const cache = new Map<string, string>();
+    const parts: string[] = [];
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      let replacement = cache.get(char);
+      if (replacement === undefined) {
+        replacement = clean(char);
+        cache.set(char, replacement);
+      }
+      parts.push(replacement);
+      for (let j = 0; j < replacement.length; j++) {
+        this.offsets.push(i);
+      }
+    }
+    this.offsets.push(source.length);
+    this.cleaned = parts.join('');
+  }
+
+  /**
+   * Finds the next chunk in the original text. Chunks must be passed in order.
+   * @param chunk - XML-escaped and trimmed text of the chunk
+   * @returns The source of the chunk; its boundaries are not found if the chunk is not
+   */
+  next(chunk: string): ChunkSource {
+    const text = chunk.replace(/&(?:amp|lt|gt|quot|apos);/g, entity => ENTITIES[entity]);
+    let start = this.position;
+    // Chunks are trimmed
+    while (start < this.cleaned.length && /\s/.test(this.cleaned[start])) {
+      start++;
+    }
+    if (!this.cleaned.startsWith(text, start)) {
+      start = this.cleaned.indexOf(text, this.position);
+      if (start < 0) {
+        return new ChunkSource('', [this.offsets[this.position]]);
+      }
+    }
+    this.position = start + text.length;
+    return new ChunkSource(text, this.offsets.slice(start, this.position + 1));
+  }
+}
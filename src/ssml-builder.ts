@@ -0,0 +1,265 @@
+/**
+ * Fluent, typed builder for SSML documents accepted by the Communicate classes.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { escape } from './xml';
+import { TTSConfig } from './tts_config';
+import { ValueError } from "./exceptions";
+import { DEFAULT_VOICE } from './constants';
+
+/** Callback that fills an element with content */
+export type SsmlContentBuilder = (content: SsmlContent) => unknown;
+
+/** Prosody adjustments, validated the same way as CommunicateOptions */
+export interface SsmlProsodyOptions {
+  /** Speech rate adjustment (e.g., "+20%", "-10%") */
+  rate?: string;
+  /** Volume level adjustment (e.g., "+50%", "-25%") */
+  volume?: string;
+  /** Pitch adjustment in Hz (e.g., "+5Hz", "-10Hz") */
+  pitch?: string;
+}
+
+/** Strength of a pause when no explicit time is given */
+export type SsmlBreakStrength = 'none' | 'x-weak' | 'weak' | 'medium' | 'strong' | 'x-strong';
+
+/** Level of emphasis for the emphasis element */
+export type SsmlEmphasisLevel = 'strong' | 'moderate' | 'reduced' | 'none';
+
+/** Phonetic alphabets accepted by the phoneme element */
+export type SsmlPhoneticAlphabet = 'ipa' | 'sapi' | 'ups' | 'x-sampa';
+
+const BREAK_TIME_PATTERN = /^\d+(\.\d+)?(ms|s)$/;
+const BREAK_STRENGTHS: SsmlBreakStrength[] = ['none', 'x-weak', 'weak', 'medium', 'strong', 'x-strong'];
+const LANG_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+function attributes(attrs: Record<string, string | undefined>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}='${escape(value!)}'`)
+    .join('');
+}
+
+function validateLang(lang: string) {
+  if (!LANG_PATTERN.test(lang)) {
+    throw new ValueError(`Invalid lang '${lang}'.`);
+  }
+}
+
+/**
+ * Content of an SSML element. Every method appends to the content and returns
+ * the same instance so calls can be chained. Text is always XML-escaped.
+ */
+export class SsmlContent {
+  private readonly parts: string[] = [];
+
+  private element(name: string, attrs: Record<string, string | undefined>, content: SsmlContentBuilder | string): this {
+    let inner: string;
+    if (typeof content === 'string') {
+      inner = escape(content);
+    } else {
+      const child = new SsmlContent();
+      content(child);
+      inner = child.toString();
+    }
+    this.parts.push(`<${name}${attributes(attrs)}>${inner}</${name}>`);
+    return this;
+  }
+
+  /**
+   * Appends plain text.
+   * @param text - Text to speak, escaped automatically
+   */
+  text(text: string): this {
+    if (typeof text !== 'string') {
+      throw new TypeError('text must be a string');
+    }
+    this.parts.push(escape(text));
+    return this;
+  }
+
+  /**
+   * Appends a pause.
+   * @param time - Duration (e.g., "500ms", "2s") or a pause strength (default: "medium")
+   * @throws {ValueError} If the time or strength is invalid
+   */
+  break(time: string | SsmlBreakStrength = 'medium'): this {
+    if (BREAK_TIME_PATTERN.test(time)) {
+      this.parts.push(`<break${attributes({ time })}/>`);
+    } else if ((BREAK_STRENGTHS as string[]).includes(time)) {
+      this.parts.push(`<break${attributes({ strength: time })}/>`);
+    } else {
+      throw new ValueError(`Invalid break time '${time}'.`);
+    }
+    return this;
+  }
+
+  /**
+   * Appends a prosody element.
+   * @param options - Rate, volume and pitch adjustments
+   * @param content - Content of the element
+   * @throws {ValueError} If any prosody value has an invalid format
+   */
+  prosody(options: SsmlProsodyOptions, content: SsmlContentBuilder | string): this {
+    // Reuse TTSConfig validation; omitted values fall back to valid defaults
+    new TTSConfig({ voice: DEFAULT_VOICE, ...options });
+    return this.element('prosody', {
+      pitch: options.pitch,
+      rate: options.rate,
+      volume: options.volume,
+    }, content);
+  }
+
+  /**
+   * Appends an emphasis element.
+   * @param level - Level of emphasis
+   * @param content - Content of the element
+   */
+  emphasis(level: SsmlEmphasisLevel, content: SsmlContentBuilder | string): this {
+    return this.element('emphasis', { level }, content);
+  }
+
+  /**
+   * Appends a say-as element that tells the service how to read the text.
+   * @param interpretAs - Content type (e.g., "date", "cardinal", "characters", "telephone")
+   * @param text - Text to interpret
+   * @param options - Optional format (e.g., "ymd" for dates) and detail
+   */
+  sayAs(interpretAs: string, text: string, options: { format?: string; detail?: string } = {}): this {
+    return this.element('say-as', {
+      'interpret-as': interpretAs,
+      format: options.format,
+      detail: options.detail,
+    }, text);
+  }
+
+  /**
+   * Appends a phoneme element with an explicit pronunciation.
+   * @param ph - Phonetic transcription
+   * @param text - Text shown in word boundaries
+   * @param alphabet - Phonetic alphabet of the transcription (default: "ipa")
+   */
+  phoneme(ph: string, text: string, alphabet: SsmlPhoneticAlphabet = 'ipa'): this {
+    return this.element('phoneme', { alphabet, ph }, text);
+  }
+
+  /**
+   * Appends a sub element that speaks an alias instead of the written text.
+   * @param alias - Text to speak
+   * @param text - Written text
+   */
+  sub(alias: string, text: string): this {
+    return this.element('sub', { alias }, text);
+  }
+
+  /**
+   * Appends a lang element that switches the spoken language (multilingual voices only).
+   * @param lang - Language tag (e.g., "de-DE")
+   * @param content - Content of the element
+   * @throws {ValueError} If the language tag is invalid
+   */
+  lang(lang: string, content: SsmlContentBuilder | string): this {
+    validateLang(lang);
+    return this.element('lang', { 'xml:lang': lang }, content);
+  }
+
+  /**
+   * Appends a paragraph element.
+   * @param content - Content of the element
+   */
+  paragraph(content: SsmlContentBuilder | string): this {
+    return this.element('p', {}, content);
+  }
+
+  /**
+   * Appends a sentence element.
+   * @param content - Content of the element
+   */
+  sentence(content: SsmlContentBuilder | string): this {
+    return this.element('s', {}, content);
+  }
+
+  /**
+   * Returns the serialized content.
+   */
+  toString(): string {
+    return this.parts.join('');
+  }
+}
+
+/**
+ * Builder for a complete SSML document with one or more voices.
+ *
+ * @example
+ * ```typescript
+ * const doc = ssml()
+ *   .voice('en-US-AriaNeural', v => v
+ *     .prosody({ rate: '+10%' }, p => p
+ *       .text('Hi')
+ *       .break('500ms')
+ *       .sayAs('date', '2024-01-02')));
+ *
+ * const communicate = Communicate.fromSsml(doc);
+ * ```
+ */
+export class SsmlBuilder {
+  private readonly lang: string;
+  private readonly voices: string[] = [];
+
+  /**
+   * @param lang - Document language (default: "en-US")
+   * @throws {ValueError} If the language tag is invalid
+   */
+  constructor(lang = 'en-US') {
+    validateLang(lang);
+    this.lang = lang;
+  }
+
+  /**
+   * Appends a voice element.
+   * @param name - Voice name (short or full format)
+   * @param content - Content spoken by the voice
+   * @throws {ValueError} If the voice name is invalid
+   */
+  voice(name: string, content: SsmlContentBuilder | string): this {
+    const voice = new TTSConfig({ voice: name }).voice;
+    const body = new SsmlContent();
+    if (typeof content === 'string') {
+      body.text(content);
+    } else {
+      content(body);
+    }
+    this.voices.push(`<voice${attributes({ name: voice })}>${body}</voice>`);
+    return this;
+  }
+
+  /**
+   * Returns the complete SSML document.
+   * @throws {ValueError} If no voice was added
+   */
+  build(): string {
+    if (this.voices.length === 0) {
+      throw new ValueError('SSML must contain at least one <voice> element.');
+    }
+    return (
+      `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis'${attributes({ 'xml:lang': this.lang })}>`
+      + this.voices.join('')
+      + "</speak>"
+    );
+  }
+
+  toString(): string {
+    return this.build();
+  }
+}
+
+/**
+ * Starts a new SSML document.
+ * @param options - Document options
+ * @param options.lang - Document language (default: "en-US")
+ * @returns A new SsmlBuilder
+ */
+export function ssml(options: { lang?: string } = {}): SsmlBuilder {
+  return new SsmlBuilder(options.lang);
+}
@@ -0,0 +1,321 @@
+/**
+ * SSML input helpers shared by all Communicate implementations.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { ITTSConfig } from './tts_config';
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { voiceLocale } from './xml';
+
+/**
+ * How the input passed to a Communicate class is interpreted.
+ * - `text`: plain text, XML-escaped and wrapped in a single voice/prosody block
+ * - `ssml`: a complete `<speak>` document, sent as-is
+ */
+export type InputType = 'text' | 'ssml';
+
+type SsmlToken =
+  | { kind: 'open' | 'close' | 'empty'; name: string; raw: string }
+  | { kind: 'text'; raw: string };
+
+type SsmlUnit = {
+  kind: 'open' | 'close' | 'content' | 'space';
+  name?: string;
+  raw: string;
+  bytes: number;
+};
+
+const TAG_PATTERN = /^<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_][\w:.-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>$/;
+const ENTITY_PATTERN = /^&(?:[A-Za-z][\w.-]*|#\d+|#x[0-9A-Fa-f]+);/;
+
+/** Elements whose content must never be split across chunks */
+const ATOMIC_ELEMENTS = new Set(['say-as', 'phoneme', 'sub']);
+
+const encoder = new TextEncoder();
+
+function findTagEnd(ssml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < ssml.length; i++) {
+    const char = ssml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    } else if (char === '<') {
+      break;
+    }
+  }
+  throw new ValueError(`Unterminated SSML tag at position ${start}.`);
+}
+
+function checkText(text: string, position: number) {
+  let ampersand = text.indexOf('&');
+  while (ampersand !== -1) {
+    if (!ENTITY_PATTERN.test(text.slice(ampersand))) {
+      throw new ValueError(`Unescaped '&' in SSML at position ${position + ampersand}.`);
+    }
+    ampersand = text.indexOf('&', ampersand + 1);
+  }
+}
+
+function tokenizeSsml(ssml: string): SsmlToken[] {
+  const tokens: SsmlToken[] = [];
+  let pos = 0;
+  while (pos < ssml.length) {
+    const lt = ssml.indexOf('<', pos);
+    const textEnd = lt === -1 ? ssml.length : lt;
+    if (textEnd > pos) {
+      const text = ssml.slice(pos, textEnd);
+      checkText(text, pos);
+      tokens.push({ kind: 'text', raw: text });
+    }
+    if (lt === -1) {
+      break;
+    }
+
+    // Comments, processing instructions and declarations are not sent to the service
+    if (ssml.startsWith('<!--', lt) || ssml.startsWith('<?', lt)) {
+      const terminator = ssml.startsWith('<!--', lt) ? '-->' : '?>';
+      const end = ssml.indexOf(terminator, lt + 2);
+      if (end === -1) {
+        throw new ValueError(`Unterminated SSML comment or declaration at position ${lt}.`);
+      }
+      pos = end + terminator.length;
+      continue;
+    }
+
+    const gt = findTagEnd(ssml, lt);
+    const raw = ssml.slice(lt, gt + 1);
+    const match = TAG_PATTERN.exec(raw);
+    if (!match || (match[1] && (match[3] || match[4]))) {
+      throw new ValueError(`Malformed SSML tag '${raw}' at position ${lt}.`);
+    }
+    const [, closing, name, , selfClosing] = match;
+    tokens.push({ kind: closing ? 'close' : selfClosing ? 'empty' : 'open', name, raw });
+    pos = gt + 1;
+  }
+  return tokens;
+}
+
+function checkStructure(tokens: SsmlToken[]) {
+  const stack: string[] = [];
+  let sawRoot = false;
+  let sawVoice = false;
+
+  for (const token of tokens) {
+    if (token.kind === 'text') {
+      if (stack.length === 0 && token.raw.trim()) {
+        throw new ValueError('Text found outside of the <speak> root element.');
+      }
+      continue;
+    }
+    if (token.kind === 'close') {
+      const expected = stack.pop();
+      if (expected !== token.name) {
+        throw new ValueError(`Unexpected closing tag </${token.name}>${expected ? `, expected </${expected}>` : ''}.`);
+      }
+      continue;
+    }
+    if (stack.length === 0) {
+      if (sawRoot) {
+        throw new ValueError('SSML must have a single <speak> root element.');
+      }
+      if (token.name !== 'speak') {
+        throw new ValueError(`SSML root element must be <speak>, found <${token.name}>.`);
+      }
+      sawRoot = true;
+    }
+    if (token.name === 'voice') {
+      sawVoice = true;
+    }
+    if (token.kind === 'open') {
+      stack.push(token.name);
+    }
+  }
+
+  if (!sawRoot) {
+    throw new ValueError('SSML must have a <speak> root element.');
+  }
+  if (stack.length > 0) {
+    throw new ValueError(`Unclosed SSML element <${stack[stack.length - 1]}>.`);
+  }
+  if (!sawVoice) {
+    throw new ValueError('SSML must contain at least one <voice> element.');
+  }
+}
+
+/**
+ * Validates that a string is a well-formed SSML document the service will accept:
+ * a single `<speak>` root, balanced tags, quoted attributes, escaped `&`
+ * and at least one `<voice>` element.
+ * @param ssml - SSML document to validate
+ * @throws {ValueError} If the document is not valid
+ */
+export function validateSsml(ssml: string): void {
+  if (typeof ssml !== 'string') {
+    throw new TypeError('ssml must be a string');
+  }
+  checkStructure(tokenizeSsml(ssml));
+}
+
+/**
+ * Replaces the control characters the service rejects with spaces.
+ * Tabs and line breaks are kept.
+ * @param text - Text to clean
+ * @returns Text of the same length without control characters
+ */
+export function removeControlCharacters(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ' ');
+}
+
+/**
+ * Builds the SSML document for a chunk of plain text input. This is the one pipeline
+ * behind every Communicate implementation: lexicons and then the normalizer are
+ * applied for the voice's language, control characters are removed from the result,
+ * and the text is wrapped in a single voice/prosody block.
+ * @param tc - Voice and prosody settings
+ * @param escapedText - XML-escaped text chunk
+ * @param lexicons - Pronunciation lexicons applied to the text for the voice's language
+ * @param normalizer - Normalizes numbers, dates and units in the text outside lexicon elements
+ * @returns Complete SSML document string
+ */
+export function plainTextSsml(tc: ITTSConfig, escapedText: string, lexicons: Lexicon[] = [], normalizer?: TextNormalizer): string {
+  const locale = voiceLocale(tc.voice);
+  const content = Lexicon.apply(escapedText, lexicons, locale);
+  const text = normalizer ? normalizer.apply(content, locale) : content;
+  return (
+    "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
+    + `<voice name='${tc.voice}'>`
+    + `<prosody pitch='${tc.pitch}' rate='${tc.rate}' volume='${tc.volume}'>`
+    + `${removeControlCharacters(text)}`
+    + "</prosody>"
+    + "</voice>"
+    + "</speak>"
+  );
+}
+
+function splitWord(word: string, byteLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  // Never split inside an entity or a surrogate pair
+  for (const part of word.match(/&[^;]*;|[\s\S]/gu) ?? []) {
+    if (current && encoder.encode(current + part).length > byteLength) {
+      pieces.push(current);
+      current = '';
+    }
+    current += part;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function toUnits(tokens: SsmlToken[], byteLength: number): SsmlUnit[] {
+  const units: SsmlUnit[] = [];
+  const unit = (kind: SsmlUnit['kind'], raw: string, name?: string): SsmlUnit =>
+    ({ kind, name, raw, bytes: encoder.encode(raw).length });
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'text') {
+      for (const word of token.raw.split(/(\s+)/)) {
+        if (!word) continue;
+        if (!word.trim()) {
+          units.push(unit('space', word));
+          continue;
+        }
+        for (const piece of splitWord(word, byteLength)) {
+          units.push(unit('content', piece));
+        }
+      }
+    } else if (token.kind === 'open' && ATOMIC_ELEMENTS.has(token.name)) {
+      // Keep the whole element, including anything nested in it, in one unit
+      let depth = 0;
+      let raw = '';
+      for (; i < tokens.length; i++) {
+        const inner = tokens[i];
+        raw += inner.raw;
+        if (inner.kind === 'open') depth++;
+        if (inner.kind === 'close' && --depth === 0) break;
+      }
+      units.push(unit('content', raw));
+    } else if (token.kind === 'empty') {
+      units.push(unit('content', token.raw));
+    } else {
+      units.push(unit(token.kind, token.raw, token.name));
+    }
+  }
+  return units;
+}
+
+/**
+ * Splits an SSML document into several complete documents whose content does not
+ * exceed the given byte length. Splits happen only between elements or at whitespace,
+ * and elements that are open at a split point are closed at the end of one chunk and
+ * re-opened (with their attributes) at the start of the next.
+ *
+ * `<say-as>`, `<phoneme>` and `<sub>` elements are never split. Comments and
+ * processing instructions are dropped.
+ *
+ * @param ssml - SSML document to split
+ * @param byteLength - Maximum byte length of the content of each chunk, not counting
+ *   the start tags before its first text (the root, or the re-opened ancestors) nor
+ *   the end tags that close them
+ * @returns Array of SSML documents, each with a `<speak>` root
+ * @throws {ValueError} If the document is not valid or byteLength is not positive
+ */
+export function splitSsml(ssml: string, byteLength: number): string[] {
+  if (byteLength <= 0) {
+    throw new ValueError("byteLength must be greater than 0");
+  }
+  const tokens = tokenizeSsml(ssml);
+  checkStructure(tokens);
+
+  const chunks: string[] = [];
+  const stack: SsmlUnit[] = [];
+  let chunkStack: SsmlUnit[] = [];
+  let body: SsmlUnit[] = [];
+  let bodyBytes = 0;
+  let hasContent = false;
+
+  const flush = () => {
+    // Tags opened right before the split point belong to the next chunk
+    const carry: SsmlUnit[] = [];
+    while (body.length > 0 && body[body.length - 1].kind === 'open') {
+      carry.unshift(body.pop()!);
+    }
+    // Whitespace at the split point is not part of either chunk
+    while (body.length > 0 && body[body.length - 1].kind === 'space') {
+      body.pop();
+    }
+    const closeStack = stack.slice(0, stack.length - carry.length);
+    chunks.push((
+      chunkStack.map(u => u.raw).join('')
+      + body.map(u => u.raw).join('')
+      + closeStack.map(u => `</${u.name}>`).reverse().join('')
+    ).trim());
+    chunkStack = closeStack;
+    body = carry;
+    bodyBytes = 0;
+    hasContent = false;
+  };
+
+  for (const unit of toUnits(tokens, byteLength)) {
+    if (unit.kind === 'content' && hasContent && bodyBytes + unit.bytes > byteLength) {
+      flush();
+    }
+    body.push(unit);
+    // Start tags before the first text are the chunk's ancestors, as in every chunk
+    if (hasContent || unit.kind !== 'open') bodyBytes += unit.bytes;
+    if (unit.kind === 'content') hasContent = true;
+    if (unit.kind === 'open') stack.push(unit);
+    if (unit.kind === 'close') stack.pop();
+  }
+  chunks.push((chunkStack.map(u => u.raw).join('') + body.map(u => u.raw).join('')).trim());
+
+  return chunks;
+}
@@ -1,64 +1,168 @@
 import { TTSChunk } from "./types";
 import { ValueError } from "./exceptions";
+import { formatTimestamp } from "./timestamp";
+import { SegmentationIssue, SegmentationOptions, TimedText, segmentWords } from "./segmentation";
+import {
+  AssOptions,
+  LrcOptions,
+  TtmlOptions,
+  escapeVttText,
+  toAss,
+  toLrc,
+  toSbv,
+  toTtml,
+  vttKaraokeText,
+} from "./subtitle-formats";
+import { parseSrt, parseVtt } from "./subtitle-parsers";
 
 interface Cue {
   index: number;
-  start: number; // in seconds
-  end: number; // in seconds
+  start: number; // in 100-nanosecond units
+  end: number; // in 100-nanosecond units
   content: string;
+  words: TimedText[]; // timing of each word, for karaoke formats
 }
 
-function formatTime(seconds: number): string {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  const ms = Math.round((seconds - Math.floor(seconds)) * 1000);
+/**
+ * WebVTT cue settings applied to every cue.
+ */
+export interface VttCueSettings {
+  /** Vertical text direction */
+  vertical?: 'rl' | 'lr';
+  /** Line position, e.g. "85%" or -2 (line number) */
+  line?: string | number;
+  /** Horizontal position of the cue box, e.g. "50%" */
+  position?: string;
+  /** Width of the cue box, e.g. "80%" */
+  size?: string;
+  /** Text alignment within the cue box */
+  align?: 'start' | 'center' | 'end' | 'left' | 'right';
+}
+
+/**
+ * Options for SubMaker.getVtt().
+ */
+export interface VttOptions {
+  /** Cue settings written after the timing of every cue */
+  cueSettings?: VttCueSettings;
+  /** CSS written in a STYLE block, e.g. "::cue { color: yellow; }" */
+  style?: string;
+  /** Comments written as NOTE blocks before the cues */
+  notes?: string[];
+  /** Write a timestamp tag before each word for karaoke-style highlighting (default: false) */
+  wordTimestamps?: boolean;
+}
+
+/**
+ * A cue as returned by SubMaker.getJson().
+ */
+export interface JsonCue {
+  /** Position of the cue, starting at 1 */
+  index: number;
+  /** Start time in seconds, rounded to milliseconds */
+  start: number;
+  /** End time in seconds, rounded to milliseconds */
+  end: number;
+  /** Text of the cue */
+  text: string;
+}
 
-  const pad = (num: number, size = 2) => num.toString().padStart(size, '0');
+function toSeconds(time: number): number {
+  return Math.round(time / 10000) / 1000;
+}
+
+// STYLE and NOTE blocks end at the first blank line and must not contain "-->"
+function vttBlock(name: string, content: string): string {
+  if (content.includes('-->')) {
+    throw new ValueError(`WebVTT ${name} blocks must not contain '-->'`);
+  }
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  return `${name}\n${lines.join('\n')}\n`;
+}
 
-  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+function formatCueSettings(settings: VttCueSettings): string {
+  return Object.entries(settings)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(' ');
 }
 
 /**
- * Utility class for generating SRT subtitles from WordBoundary events.
+ * Utility class for generating SRT, WebVTT, TTML, SBV, karaoke and JSON subtitles from WordBoundary events.
+ * Existing SRT and WebVTT subtitles can be loaded with {@link SubMaker.fromSrt} and
+ * {@link SubMaker.fromVtt}, adjusted and written back.
  * 
  * @example
  * ```typescript
  * const subMaker = new SubMaker();
  * 
  * for await (const chunk of communicate.stream()) {
- *   if (chunk.type === 'WordBoundary') {
+ *   if (chunk.type === 'WordBoundary' || chunk.type === 'SentenceBoundary') {
  *     subMaker.feed(chunk);
  *   }
  * }
  * 
+ * subMaker.segment();
  * const srt = subMaker.getSrt();
  * ```
  */
 export class SubMaker {
   private cues: Cue[] = [];
+  private sentenceStarts: number[] = [];
+
+  /**
+   * Creates a subtitle maker from existing SRT subtitles.
+   * 
+   * @param text - Content of an SRT file
+   * @returns A SubMaker holding the parsed cues
+   * @throws {ValueError} If a cue has no valid timing line
+   */
+  static fromSrt(text: string): SubMaker {
+    return SubMaker.fromCues(parseSrt(text));
+  }
+
+  /**
+   * Creates a subtitle maker from existing WebVTT subtitles. Markup is removed from the
+   * cue text; timestamp tags such as those written by `getVtt({ wordTimestamps: true })`
+   * become word timing.
+   * 
+   * @param text - Content of a WebVTT file
+   * @returns A SubMaker holding the parsed cues
+   * @throws {ValueError} If the header is missing or a cue has no valid timing line
+   */
+  static fromVtt(text: string): SubMaker {
+    return SubMaker.fromCues(parseVtt(text));
+  }
+
+  private static fromCues(cues: TimedText[]): SubMaker {
+    const subMaker = new SubMaker();
+    subMaker.cues = cues.map((cue, i) => ({ ...cue, index: i + 1, words: cue.words ?? [] }));
+    return subMaker;
+  }
 
   /**
-   * Adds a WordBoundary chunk to the subtitle maker.
+   * Adds a WordBoundary chunk to the subtitle maker. SentenceBoundary chunks are also
+   * accepted; they do not create cues but mark where {@link segment} splits.
    * 
-   * @param msg - Must be a WordBoundary type chunk with offset, duration, and text
-   * @throws {ValueError} If chunk is not a WordBoundary with required fields
+   * @param msg - Must be a WordBoundary or SentenceBoundary type chunk with offset, duration, and text
+   * @throws {ValueError} If chunk is not a WordBoundary or SentenceBoundary with required fields
    */
   feed(msg: TTSChunk): void {
+    if (msg.type === 'SentenceBoundary' && msg.offset !== undefined) {
+      this.sentenceStarts.push(msg.offset);
+      return;
+    }
     if (msg.type !== 'WordBoundary' || msg.offset === undefined || msg.duration === undefined || msg.text === undefined) {
       throw new ValueError("Invalid message type, expected 'WordBoundary' with offset, duration and text");
     }
 
     // offset and duration are in 100-nanosecond intervals.
-    // srt timestamps are in seconds. 1s = 10^7 * 100ns
-    const start = msg.offset / 1e7;
-    const end = (msg.offset + msg.duration) / 1e7;
-
     this.cues.push({
       index: this.cues.length + 1,
-      start: start,
-      end: end,
+      start: msg.offset,
+      end: msg.offset + msg.duration,
       content: msg.text,
+      words: [{ start: msg.offset, end: msg.offset + msg.duration, content: msg.text }],
     });
   }
 
@@ -86,6 +190,7 @@ export class SubMaker {
           ...currentCue,
           end: cue.end,
           content: `${currentCue.content} ${cue.content}`,
+          words: [...currentCue.words, ...cue.words],
         };
       } else {
         newCues.push(currentCue);
@@ -98,6 +203,93 @@ export class SubMaker {
     this.cues = newCues.map((cue, i) => ({ ...cue, index: i + 1 }));
   }
 
+  /**
+   * Groups the word cues into readable subtitles, following broadcast caption guidelines:
+   * at most 42 characters per line, 2 lines per cue and 17 characters per second by default.
+   * Cues end at sentence starts and punctuation where possible, and their timing is adjusted
+   * for the minimum duration and gap. Call it once, after all words were fed.
+   * 
+   * @param options - Segmentation rules
+   * @returns The rules that could not be satisfied, e.g. a word longer than a line; empty if all were met
+   * @throws {ValueError} If an option is invalid
+   */
+  segment(options: SegmentationOptions = {}): SegmentationIssue[] {
+    const { cues, issues } = segmentWords(this.cues, this.sentenceStarts, options);
+    this.cues = cues.map((cue, i) => ({ ...cue, index: i + 1, words: cue.words ?? [] }));
+    return issues;
+  }
+
+  /**
+   * Moves all cues in time. Cues that would start before zero are clamped to zero.
+   * 
+   * @param milliseconds - Amount to move, negative to move the cues earlier
+   */
+  shift(milliseconds: number): void {
+    const ticks = milliseconds * 10_000;
+    this.mapTimes(time => Math.max(time + ticks, 0));
+  }
+
+  /**
+   * Multiplies all cue times by a factor, e.g. `1 / 1.25` after speeding the audio up by 25%.
+   * 
+   * @param factor - Factor applied to all times
+   * @throws {ValueError} If the factor is not a positive number
+   */
+  scale(factor: number): void {
+    if (!(factor > 0) || !Number.isFinite(factor)) {
+      throw new ValueError("Invalid scale factor, expected a positive number");
+    }
+    this.mapTimes(time => Math.round(time * factor));
+  }
+
+  /**
+   * Keeps only the cues within a time range. Cues that overlap its start or end are cut
+   * to the range; cue times are not moved.
+   * 
+   * @param start - Start of the range in milliseconds
+   * @param end - End of the range in milliseconds (default: no end)
+   * @throws {ValueError} If the end is before the start
+   */
+  clip(start: number, end = Infinity): void {
+    if (end < start) {
+      throw new ValueError("Invalid clip range, end is before start");
+    }
+    const from = start * 10_000;
+    const to = end * 10_000;
+    const clamp = <T extends TimedText>(item: T): T =>
+      ({ ...item, start: Math.max(item.start, from), end: Math.min(item.end, to) });
+
+    this.cues = this.cues
+      .filter(cue => cue.end > from && cue.start < to)
+      .map((cue, i) => ({
+        ...clamp(cue),
+        index: i + 1,
+        words: cue.words.filter(word => word.end > from && word.start < to).map(clamp),
+      }));
+  }
+
+  /**
+   * Adds the cues of another subtitle maker, e.g. human-edited cues to generated ones.
+   * The combined cues are ordered by start time and renumbered; overlapping cues are kept.
+   * 
+   * @param other - Subtitle maker whose cues are added; it is not changed
+   */
+  merge(other: SubMaker): void {
+    const cues = [...this.cues, ...other.cues].sort((a, b) => a.start - b.start);
+    this.cues = cues.map((cue, i) => ({ ...cue, index: i + 1 }));
+    this.sentenceStarts = [...this.sentenceStarts, ...other.sentenceStarts].sort((a, b) => a - b);
+  }
+
+  private mapTimes(map: (time: number) => number): void {
+    this.cues = this.cues.map(cue => ({
+      ...cue,
+      start: map(cue.start),
+      end: map(cue.end),
+      words: cue.words.map(word => ({ ...word, start: map(word.start), end: map(word.end) })),
+    }));
+    this.sentenceStarts = this.sentenceStarts.map(map);
+  }
+
   /**
    * Returns the subtitles in SRT format.
    * 
@@ -105,10 +297,91 @@ export class SubMaker {
    */
   getSrt(): string {
     return this.cues.map(cue => {
-      return `${cue.index}\r\n${formatTime(cue.start)} --> ${formatTime(cue.end)}\r\n${cue.content}\r\n`;
+      return `${cue.index}\r\n${formatTimestamp(cue.start, 'srt')} --> ${formatTimestamp(cue.end, 'srt')}\r\n${cue.content.replace(/\r?\n/g, '\r\n')}\r\n`;
     }).join('\r\n');
   }
 
+  /**
+   * Returns the subtitles in WebVTT format.
+   * 
+   * @param options - Cue settings, STYLE block and NOTE blocks
+   * @returns WebVTT formatted subtitles
+   * @throws {ValueError} If the style or a note contains '-->'
+   */
+  getVtt(options: VttOptions = {}): string {
+    const blocks = ['WEBVTT\n'];
+    if (options.style) {
+      blocks.push(vttBlock('STYLE', options.style));
+    }
+    for (const note of options.notes ?? []) {
+      blocks.push(vttBlock('NOTE', note));
+    }
+
+    const settings = options.cueSettings ? formatCueSettings(options.cueSettings) : '';
+    for (const cue of this.cues) {
+      const timing = `${formatTimestamp(cue.start, 'vtt')} --> ${formatTimestamp(cue.end, 'vtt')}`;
+      const text = options.wordTimestamps ? vttKaraokeText(cue) : escapeVttText(cue.content);
+      blocks.push(`${cue.index}\n${settings ? `${timing} ${settings}` : timing}\n${text}\n`);
+    }
+    return blocks.join('\n');
+  }
+
+  /**
+   * Returns the subtitles as an Advanced SubStation Alpha (ASS) script with `\k` karaoke
+   * tags, so players highlight each word as it is spoken.
+   * 
+   * @param options - Script title and default style
+   * @returns ASS formatted subtitles
+   */
+  getAss(options: AssOptions = {}): string {
+    return toAss(this.cues, options);
+  }
+
+  /**
+   * Returns the subtitles in enhanced LRC format, with a timestamp before each word.
+   * 
+   * @param options - Title, artist and album tags
+   * @returns Enhanced LRC formatted lyrics
+   */
+  getLrc(options: LrcOptions = {}): string {
+    return toLrc(this.cues, options);
+  }
+
+  /**
+   * Returns the subtitles as a TTML document conforming to the IMSC1 Text profile.
+   * Text is XML-escaped and line breaks become `<br/>` elements.
+   * 
+   * @param options - Language and title of the document
+   * @returns TTML formatted subtitles
+   */
+  getTtml(options: TtmlOptions = {}): string {
+    return toTtml(this.cues, options);
+  }
+
+  /**
+   * Returns the subtitles in YouTube SBV format.
+   * 
+   * @returns SBV formatted subtitles
+   */
+  getSbv(): string {
+    return toSbv(this.cues);
+  }
+
+  /**
+   * Returns the subtitles as a JSON array of cues with start and end times in seconds.
+   * 
+   * @returns JSON string of {@link JsonCue} objects
+   */
+  getJson(): string {
+    const cues: JsonCue[] = this.cues.map(cue => ({
+      index: cue.index,
+      start: toSeconds(cue.start),
+      end: toSeconds(cue.end),
+      text: cue.content,
+    }));
+    return JSON.stringify(cues);
+  }
+
   toString(): string {
     return this.getSrt();
   }
@@ -0,0 +1,225 @@
+/**
+ * Serializers for subtitle formats beyond SRT and WebVTT: karaoke formats that highlight
+ * each word, TTML (IMSC1) and YouTube SBV. Used by SubMaker.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { TimedText } from "./segmentation";
+import { formatTimestamp } from "./timestamp";
+import { escape } from "./xml";
+
+/**
+ * Options for SubMaker.getAss().
+ */
+export interface AssOptions {
+  /** Script title (default: "edge-tts-universal") */
+  title?: string;
+  /** Font of the default style (default: "Arial") */
+  fontName?: string;
+  /** Font size of the default style, relative to a 1080 pixel high video (default: 48) */
+  fontSize?: number;
+  /** Color of words that were spoken, as &HAABBGGRR (default: "&H0000FFFF", yellow) */
+  primaryColor?: string;
+  /** Color of words that were not spoken yet, as &HAABBGGRR (default: "&H00FFFFFF", white) */
+  secondaryColor?: string;
+}
+
+/**
+ * Options for SubMaker.getLrc().
+ */
+export interface LrcOptions {
+  /** Title tag ([ti:]) */
+  title?: string;
+  /** Artist tag ([ar:]) */
+  artist?: string;
+  /** Album tag ([al:]) */
+  album?: string;
+}
+
+/**
+ * Options for SubMaker.getTtml().
+ */
+export interface TtmlOptions {
+  /** Language of the subtitles as a BCP 47 tag, e.g. "en-US" (default: "", unknown) */
+  language?: string;
+  /** Title written to the document metadata */
+  title?: string;
+}
+
+/** A word of a cue and the text between it and the previous word */
+type CueWord = { separator: string; word: TimedText };
+
+/**
+ * Splits the content of a cue into its timed words. Cues without word timing are
+ * treated as a single word.
+ */
+function cueWords(cue: TimedText): CueWord[] {
+  if (!cue.words || cue.words.length === 0) {
+    return [{ separator: '', word: cue }];
+  }
+  const words: CueWord[] = [];
+  let position = 0;
+  for (const word of cue.words) {
+    const index = cue.content.indexOf(word.content, position);
+    if (index < 0) {
+      // The content was edited; fall back to the words separated by spaces
+      return cue.words.map((word, i) => ({ separator: i > 0 ? ' ' : '', word }));
+    }
+    words.push({ separator: cue.content.slice(position, index), word });
+    position = index + word.content.length;
+  }
+  return words;
+}
+
+/**
+ * Escapes the characters that have a special meaning in WebVTT cue text.
+ * @param text - Cue text
+ * @returns The escaped text
+ */
+export function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Returns the WebVTT text of a cue with a timestamp tag before each word after the first,
+ * e.g. "Hello <00:00:01.200>world".
+ */
+export function vttKaraokeText(cue: TimedText): string {
+  return cueWords(cue).map(({ separator, word }) => {
+    // Timestamp tags must lie strictly within the cue
+    if (word.start <= cue.start || word.start >= cue.end) {
+      return escapeVttText(separator + word.content);
+    }
+    return `${escapeVttText(separator)}<${formatTimestamp(word.start, 'vtt')}>${escapeVttText(word.content)}`;
+  }).join('');
+}
+
+function escapeAssText(text: string): string {
+  return text.replace(/\{/g, '\\{').replace(/\}/g, '\\}').replace(/\r?\n/g, '\\N');
+}
+
+/**
+ * Serializes cues to an Advanced SubStation Alpha (ASS) script with `\k` karaoke tags.
+ * Each word stays highlighted until the next word starts.
+ */
+export function toAss(cues: TimedText[], options: AssOptions = {}): string {
+  const styleFormat = 'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, '
+    + 'Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, '
+    + 'Alignment, MarginL, MarginR, MarginV, Encoding';
+  const style = [
+    'Default',
+    options.fontName ?? 'Arial',
+    options.fontSize ?? 48,
+    options.primaryColor ?? '&H0000FFFF',
+    options.secondaryColor ?? '&H00FFFFFF',
+    '&H00000000',
+    '&H80000000',
+    '0,0,0,0,100,100,0,0,1,2,0,2,60,60,50,1',
+  ].join(',');
+
+  const lines = [
+    '[Script Info]',
+    `Title: ${options.title ?? 'edge-tts-universal'}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    '',
+    '[V4+ Styles]',
+    `Format: ${styleFormat}`,
+    `Style: ${style}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  for (const cue of cues) {
+    const words = cueWords(cue);
+    // Karaoke durations are centiseconds; round positions, not durations, to avoid drift
+    const centiseconds = (time: number) => Math.round((time - cue.start) / 100000);
+    let text = '';
+    let position = 0;
+    words.forEach(({ separator, word }, i) => {
+      const start = Math.max(centiseconds(word.start), position);
+      if (start > position) {
+        text += `{\\k${start - position}}`;
+      }
+      const end = Math.max(i + 1 < words.length ? centiseconds(words[i + 1].word.start) : centiseconds(cue.end), start);
+      text += `${escapeAssText(separator)}{\\k${end - start}}${escapeAssText(word.content)}`;
+      position = end;
+    });
+    lines.push(`Dialogue: 0,${formatTimestamp(cue.start, 'ass')},${formatTimestamp(cue.end, 'ass')},Default,,0,0,0,,${text}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes cues to enhanced LRC, with a line timestamp per cue and a word timestamp
+ * before each word. A line without text clears the display after a cue that is followed by
+ * a pause.
+ */
+export function toLrc(cues: TimedText[], options: LrcOptions = {}): string {
+  const lines: string[] = [];
+  if (options.title !== undefined) lines.push(`[ti:${options.title}]`);
+  if (options.artist !== undefined) lines.push(`[ar:${options.artist}]`);
+  if (options.album !== undefined) lines.push(`[al:${options.album}]`);
+
+  cues.forEach((cue, i) => {
+    const words = cueWords(cue).map(({ separator, word }) =>
+      `${separator.replace(/\s+/g, ' ')}<${formatTimestamp(word.start, 'lrc')}>${word.content.replace(/\s+/g, ' ')}`
+    );
+    lines.push(`[${formatTimestamp(cue.start, 'lrc')}]${words.join('')} <${formatTimestamp(cue.end, 'lrc')}>`);
+    const next = cues[i + 1];
+    if (!next || next.start > cue.end) {
+      lines.push(`[${formatTimestamp(cue.end, 'lrc')}]`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes cues to a TTML document conforming to the IMSC1 Text profile, with
+ * clock-time expressions on the media time base and the cues in a bottom region.
+ */
+export function toTtml(cues: TimedText[], options: TtmlOptions = {}): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tt xmlns="http://www.w3.org/ns/ttml"'
+    + ' xmlns:ttp="http://www.w3.org/ns/ttml#parameter"'
+    + ' xmlns:tts="http://www.w3.org/ns/ttml#styling"'
+    + ' xmlns:ttm="http://www.w3.org/ns/ttml#metadata"'
+    + ' ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"'
+    + ` ttp:timeBase="media" xml:lang="${escape(options.language ?? '')}">`,
+    '  <head>',
+  ];
+  if (options.title !== undefined) {
+    lines.push('    <metadata>', `      <ttm:title>${escape(options.title)}</ttm:title>`, '    </metadata>');
+  }
+  lines.push(
+    '    <styling>',
+    '      <style xml:id="default" tts:color="white" tts:backgroundColor="black" tts:textAlign="center" tts:fontFamily="proportionalSansSerif" tts:fontSize="100%"/>',
+    '    </styling>',
+    '    <layout>',
+    '      <region xml:id="bottom" tts:origin="10% 75%" tts:extent="80% 20%" tts:displayAlign="after"/>',
+    '    </layout>',
+    '  </head>',
+    '  <body region="bottom" style="default">',
+    '    <div>',
+  );
+  cues.forEach((cue, i) => {
+    const text = cue.content.split(/\r?\n/).map(escape).join('<br/>');
+    lines.push(`      <p xml:id="c${i + 1}" begin="${formatTimestamp(cue.start, 'vtt')}" end="${formatTimestamp(cue.end, 'vtt')}">${text}</p>`);
+  });
+  lines.push('    </div>', '  </body>', '</tt>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes cues to YouTube SBV: a "start,end" line, the text and a blank line per cue.
+ */
+export function toSbv(cues: TimedText[]): string {
+  return cues.map(cue =>
+    `${formatTimestamp(cue.start, 'sbv')},${formatTimestamp(cue.end, 'sbv')}\n${cue.content}\n`
+  ).join('\n');
+}
@@ -0,0 +1,118 @@
+/**
+ * SRT and WebVTT parsers that turn existing subtitle files into SubMaker cues.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { TimedText } from "./segmentation";
+import { parseTimestamp } from "./timestamp";
+
+/** Splits subtitle text into blocks of non-empty lines, with the line number of each block */
+function blocks(text: string): { line: number; lines: string[] }[] {
+  const result: { line: number; lines: string[] }[] = [];
+  let current: { line: number; lines: string[] } | null = null;
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((line, i) => {
+    if (line.trim() === '') {
+      current = null;
+    } else {
+      if (!current) {
+        current = { line: i + 1, lines: [] };
+        result.push(current);
+      }
+      current.lines.push(line);
+    }
+  });
+  return result;
+}
+
+function parseTiming(line: string, format: string, lineNumber: number): { start: number; end: number } {
+  const [startText, rest = ''] = line.split('-->');
+  // WebVTT cue settings follow the end time
+  const [endText = ''] = rest.trim().split(/\s+/);
+  const start = parseTimestamp(startText);
+  const end = parseTimestamp(endText);
+  if (start === null || end === null) {
+    throw new ValueError(`Invalid ${format} timing on line ${lineNumber}: '${line}'`);
+  }
+  return { start, end };
+}
+
+/**
+ * Parses SRT subtitles.
+ * @param text - Content of an SRT file
+ * @returns The cues in file order
+ * @throws {ValueError} If a cue has no valid timing line
+ */
+export function parseSrt(text: string): TimedText[] {
+  return blocks(text).map(({ line, lines }) => {
+    // The cue number is optional in practice
+    const timingIndex = lines[0].includes('-->') ? 0 : 1;
+    if (!lines[timingIndex]?.includes('-->')) {
+      throw new ValueError(`Invalid SRT cue on line ${line}: missing timing line`);
+    }
+    const { start, end } = parseTiming(lines[timingIndex], 'SRT', line + timingIndex);
+    const content = lines.slice(timingIndex + 1).join('\n');
+    return { start, end, content, words: [{ start, end, content }] };
+  });
+}
+
+function decodeVttText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\u00A0')
+    .replace(/&lrm;/g, '\u200E')
+    .replace(/&rlm;/g, '\u200F')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Splits WebVTT cue text with timestamp tags ("Hello <00:00:01.200>world") into timed words.
+ * Each word lasts until the next one starts.
+ */
+function vttWords(text: string, start: number, end: number): TimedText[] {
+  const parts = text.split(/<((?:\d+:)?\d{2}:\d{2}\.\d{3})>/);
+  const words: TimedText[] = [];
+  let wordStart = start;
+  for (let i = 0; i < parts.length; i += 2) {
+    const content = decodeVttText(parts[i]).trim();
+    const next = i + 1 < parts.length ? parseTimestamp(parts[i + 1])! : end;
+    if (content) {
+      words.push({ start: wordStart, end: next, content });
+    }
+    wordStart = next;
+  }
+  return words;
+}
+
+/**
+ * Parses WebVTT subtitles. STYLE, NOTE and REGION blocks, cue identifiers and cue settings
+ * are skipped. Markup is removed from the cue text, and timestamp tags become word timing.
+ * @param text - Content of a WebVTT file
+ * @returns The cues in file order
+ * @throws {ValueError} If the WEBVTT header is missing or a cue has no valid timing line
+ */
+export function parseVtt(text: string): TimedText[] {
+  const [header, ...rest] = blocks(text);
+  if (!header || !/^WEBVTT(?:[ \t]|$)/.test(header.lines[0])) {
+    throw new ValueError("Invalid WebVTT: missing 'WEBVTT' header");
+  }
+
+  const cues: TimedText[] = [];
+  for (const { line, lines } of rest) {
+    if (/^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/.test(lines[0])) {
+      continue;
+    }
+    const timingIndex = lines[0].includes('-->') ? 0 : 1;
+    if (!lines[timingIndex]?.includes('-->')) {
+      throw new ValueError(`Invalid WebVTT cue on line ${line}: missing timing line`);
+    }
+    const { start, end } = parseTiming(lines[timingIndex], 'WebVTT', line + timingIndex);
+    const raw = lines.slice(timingIndex + 1).join('\n');
+    const content = decodeVttText(raw);
+    const words = vttWords(raw, start, end);
+    cues.push({ start, end, content, words: words.length > 1 ? words : [{ start, end, content }] });
+  }
+  return cues;
+}
@@ -0,0 +1,60 @@
+/**
+ * Subtitle timestamp formatting and parsing shared by SubMaker and the createVTT/createSRT helpers.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+/**
+ * Formats a time value from 100-nanosecond units into a subtitle timestamp string.
+ * VTT, SRT and SBV times are rounded to the nearest millisecond, ASS and LRC times to the
+ * nearest centisecond; negative times are clamped to zero.
+ * @param timeIn100ns The time value in 100-nanosecond units.
+ * @param format The subtitle format, which determines the precision and separators.
+ * @returns A formatted timestamp string (e.g., "00:01:23.456", "0:01:23.46" or "01:23.46").
+ */
+export function formatTimestamp(timeIn100ns: number, format: 'vtt' | 'srt' | 'sbv' | 'ass' | 'lrc'): string {
+  if (format === 'ass' || format === 'lrc') {
+    const totalCentiseconds = Math.max(Math.round(timeIn100ns / 100000), 0);
+    const minutes = Math.floor(totalCentiseconds / 6000);
+    const seconds = Math.floor((totalCentiseconds % 6000) / 100);
+    const centiseconds = totalCentiseconds % 100;
+    const time = `${padNumber(seconds)}.${padNumber(centiseconds)}`;
+    return format === 'lrc'
+      ? `${padNumber(minutes)}:${time}`
+      : `${Math.floor(minutes / 60)}:${padNumber(minutes % 60)}:${time}`;
+  }
+
+  const totalMilliseconds = Math.max(Math.round(timeIn100ns / 10000), 0);
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const seconds = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+  const separator = format === 'srt' ? ',' : '.';
+  // SBV (YouTube) hours are not padded
+  const hourText = format === 'sbv' ? hours.toString() : padNumber(hours);
+  return `${hourText}:${padNumber(minutes)}:${padNumber(seconds)}${separator}${padNumber(milliseconds, 3)}`;
+}
+
+/**
+ * Parses an SRT or WebVTT timestamp such as "00:01:23,456", "01:23.456" or "1:01:23.456".
+ * @param text The timestamp.
+ * @returns The time in 100-nanosecond units, or null if the text is not a timestamp.
+ */
+export function parseTimestamp(text: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  const milliseconds = Number(fraction.padEnd(3, '0'));
+  return ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 10000000 + milliseconds * 10000;
+}
+
+/**
+ * Pads a number with leading zeros to a specified length.
+ * @param num The number to pad.
+ * @param length The desired length of the string.
+ * @returns The padded number as a string.
+ */
+function padNumber(num: number, length = 2): string {
+  return num.toString().padStart(length, '0');
+}
@@ -1,18 +1,25 @@
+import { ChunkSource } from './source-map';
+import { TTSConfig } from './tts_config';
+
 /**
  * Represents a chunk of data received during TTS streaming.
- * Can contain either audio data or word boundary metadata.
+ * Can contain either audio data or word/sentence boundary metadata.
  */
 export type TTSChunk = {
-  /** The type of chunk - either audio data or word boundary metadata */
+  /** The type of chunk - either audio data or word/sentence boundary metadata */
   type: "audio" | "WordBoundary" | "SentenceBoundary";
   /** Raw audio data buffer (present for audio chunks) */
   data?: Buffer;
-  /** Duration of the word in 100-nanosecond units (present for WordBoundary chunks) */
+  /** Duration of the word or sentence in 100-nanosecond units (present for boundary chunks) */
   duration?: number;
-  /** Offset from the beginning in 100-nanosecond units (present for WordBoundary chunks) */
+  /** Offset from the beginning in 100-nanosecond units (present for boundary chunks) */
   offset?: number;
-  /** The spoken text (present for WordBoundary chunks) */
+  /** The spoken text (present for boundary chunks) */
   text?: string;
+  /** Index of the first character of the boundary in the original text (plain text input without preprocess only) */
+  sourceStart?: number;
+  /** Index after the last character of the boundary in the original text (plain text input without preprocess only) */
+  sourceEnd?: number;
 };
 
 /**
@@ -114,6 +121,10 @@ export type CommunicateState = {
   offsetCompensation: number;
   /** Last recorded duration offset for timing calculations */
   lastDurationOffset: number;
+  /** Locates the boundaries of the text chunk in the original text (plain text input without preprocess only) */
+  source?: ChunkSource;
+  /** Voice and prosody of the text chunk, when it differs from the instance's (voice: 'auto') */
+  ttsConfig?: TTSConfig;
   /** Flag indicating if the stream method has been called */
   streamWasCalled: boolean;
 }; 
\ No newline at end of file
@@ -2,6 +2,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { TTSConfig } from './tts_config';
 import { ValueError } from "./exceptions";
 import escape from 'xml-escape';
+import { Lexicon } from './lexicon';
+import { TextNormalizer } from './normalizer';
+import { plainTextSsml } from './ssml';
 
 /**
  * Parses text-based WebSocket messages to extract headers and data.
@@ -153,18 +156,16 @@ export function* splitTextByByteLength(text: string | Buffer, byteLength: number
  * Creates SSML (Speech Synthesis Markup Language) from text and TTS configuration.
  * @param tc - TTS configuration containing voice and prosody settings
  * @param escapedText - Text content (should be XML-escaped)
+ * @param lexicons - Pronunciation lexicons applied to the text for the voice's language
+ * @param normalizer - Normalizes numbers, dates and units in the text outside lexicon elements
  * @returns Complete SSML document string
  */
-export function mkssml(tc: TTSConfig, escapedText: string | Buffer): string {
-  const text = Buffer.isBuffer(escapedText) ? escapedText.toString('utf-8') : escapedText;
-  return (
-    "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
-    + `<voice name='${tc.voice}'>`
-    + `<prosody pitch='${tc.pitch}' rate='${tc.rate}' volume='${tc.volume}'>`
-    + `${text}`
-    + "</prosody>"
-    + "</voice>"
-    + "</speak>"
+export function mkssml(tc: TTSConfig, escapedText: string | Buffer, lexicons: Lexicon[] = [], normalizer?: TextNormalizer): string {
+  return plainTextSsml(
+    tc,
+    Buffer.isBuffer(escapedText) ? escapedText.toString('utf-8') : escapedText,
+    lexicons,
+    normalizer,
   );
 }
 
@@ -0,0 +1,144 @@
+/**
+ * RIFF/WAVE container for the raw PCM and mu-law output formats.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+import { ValueError } from "./exceptions";
+import { OutputFormat } from "./output-format";
+
+/**
+ * Output formats that deliver headerless audio, which can be wrapped in a WAV container.
+ */
+export type WavOutputFormat = Extract<OutputFormat, `raw-${string}`>;
+
+/**
+ * Sample format of the audio in a WAV container.
+ */
+export interface WavFormat {
+  /** Samples per second */
+  sampleRate: number;
+  /** Bits per sample: 16 for linear PCM, 8 for mu-law */
+  bitsPerSample: number;
+  /** Number of channels */
+  channels: number;
+  /** Sample encoding */
+  encoding: 'pcm' | 'mulaw';
+}
+
+// Format tags of the fmt chunk
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_MULAW = 7;
+
+/** Data size written by createWavHeader when the length is not known yet */
+const PLACEHOLDER_SIZE = 0xffffffff;
+
+/**
+ * Returns the sample format of a raw output format.
+ * @param format - Raw output format, e.g. "raw-24khz-16bit-mono-pcm"
+ * @returns Sample format for the WAV header
+ * @throws {ValueError} If the format is not a raw PCM or mu-law format
+ */
+export function getWavFormat(format: WavOutputFormat): WavFormat {
+  const match = /^raw-(\d+)khz-(\d+)bit-mono-(pcm|mulaw)$/.exec(format);
+  if (!match) {
+    throw new ValueError(`Output format '${format}' cannot be wrapped in a WAV container. Use a raw-* format.`);
+  }
+  return {
+    sampleRate: Number(match[1]) * 1000,
+    bitsPerSample: Number(match[2]),
+    channels: 1,
+    encoding: match[3] as WavFormat['encoding'],
+  };
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Creates the header of a WAV file. Mu-law audio gets the extended fmt chunk and the
+ * fact chunk that non-PCM formats require.
+ *
+ * Without a data length, the RIFF and data sizes are set to 0xFFFFFFFF so the header can
+ * be written before streaming; most players then read until the end of the file. Call
+ * {@link patchWavHeader} once the length is known to write the exact sizes.
+ *
+ * @param format - Sample format of the audio
+ * @param dataLength - Length of the audio data in bytes, if known
+ * @returns The header, followed directly by the audio data in a WAV file
+ */
+export function createWavHeader(format: WavFormat, dataLength?: number): Uint8Array {
+  const mulaw = format.encoding === 'mulaw';
+  const fmtLength = mulaw ? 18 : 16;
+  const headerLength = 12 + 8 + fmtLength + (mulaw ? 12 : 0) + 8;
+  const blockAlign = format.channels * format.bitsPerSample / 8;
+
+  const header = new Uint8Array(headerLength);
+  const view = new DataView(header.buffer);
+  writeAscii(view, 0, 'RIFF');
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, mulaw ? WAVE_FORMAT_MULAW : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, format.bitsPerSample, true);
+  let offset = 20 + fmtLength;
+  if (mulaw) {
+    // cbSize of the extended fmt chunk is already 0; the fact chunk holds the sample count
+    writeAscii(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    offset += 12;
+  }
+  writeAscii(view, offset, 'data');
+
+  if (dataLength === undefined) {
+    view.setUint32(4, PLACEHOLDER_SIZE, true);
+    view.setUint32(offset + 4, PLACEHOLDER_SIZE, true);
+  } else {
+    patchWavHeader(header, dataLength);
+  }
+  return header;
+}
+
+/**
+ * Writes the exact sizes into a WAV header created without a data length.
+ * @param header - The header, or a complete WAV file starting with it; modified in place
+ * @param dataLength - Length of the audio data in bytes
+ */
+export function patchWavHeader(header: Uint8Array, dataLength: number) {
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const blockAlign = view.getUint16(32, true);
+  let offset = 12;
+  while (offset + 8 <= header.length) {
+    const id = String.fromCharCode(...header.subarray(offset, offset + 4));
+    if (id === 'fact') {
+      view.setUint32(offset + 8, Math.floor(dataLength / blockAlign), true);
+    } else if (id === 'data') {
+      view.setUint32(offset + 4, dataLength, true);
+      // Chunks are padded to an even length
+      view.setUint32(4, offset + 8 + dataLength + (dataLength % 2) - 8, true);
+      return;
+    }
+    offset += 8 + view.getUint32(offset + 4, true);
+  }
+  throw new ValueError('Not a WAV header: no data chunk found.');
+}
+
+/**
+ * Wraps headerless audio in a WAV container.
+ * @param data - Raw PCM or mu-law audio
+ * @param format - Sample format of the audio
+ * @returns A complete WAV file
+ */
+export function encodeWav(data: Uint8Array, format: WavFormat): Uint8Array {
+  const header = createWavHeader(format, data.length);
+  const wav = new Uint8Array(header.length + data.length + (data.length % 2));
+  wav.set(header);
+  wav.set(data, header.length);
+  return wav;
+}
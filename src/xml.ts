@@ -0,0 +1,36 @@
+/**
+ * XML escaping and voice name helpers shared by the SSML, lexicon, normalizer, chunking
+ * and subtitle modules. Has no imports, so any module can depend on it.
+ * Uses only Web APIs so it works in Node.js, browsers and Web Workers.
+ */
+
+/**
+ * Escapes the XML special characters of text.
+ */
+export function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Unescapes XML entities in text.
+ */
+export function unescape(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Returns the locale of a voice, e.g. "zh-CN" for "zh-CN-XiaoxiaoNeural" or its full name.
+ */
+export function voiceLocale(voice: string): string | undefined {
+  return /\(([a-z]{2,}-[A-Za-z]{2,}),/.exec(voice)?.[1] ?? /^([a-z]{2,}-[A-Z]{2,})-/.exec(voice)?.[1];
+}
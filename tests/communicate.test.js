@@ -1,6 +1,27 @@
 import { test, describe } from 'node:test';
 import assert from 'node:assert';
-import { Communicate, SubMaker } from '../dist/index.js';
+import { FakeWebSocket, installFakeWebSocket, sentMessages } from './fake-websocket.js';
+import {
+  AbortError,
+  Communicate,
+  IsomorphicCommunicate,
+  NoAudioReceived,
+  SourceLocator,
+  SubMaker,
+  UnexpectedResponse,
+  ValueError,
+  WebSocketError,
+  getMimeType,
+  splitTextBySentence,
+  isRetryableError
+} from '../dist/index.js';
+import {
+  AbortError as BrowserAbortError,
+  Communicate as BrowserCommunicate,
+  DRM as BrowserDRM,
+  NoAudioReceived as BrowserNoAudioReceived,
+  WebSocketError as BrowserWebSocketError
+} from '../dist/browser.js';
 
 describe('Streaming API', () => {
   test('Communicate can be instantiated', () => {
@@ -22,6 +43,79 @@ describe('Streaming API', () => {
     assert(communicate instanceof Communicate, 'Should create Communicate instance with options');
   });
 
+  test('Communicate accepts supported output formats', () => {
+    const communicate = new Communicate('Test text', {
+      outputFormat: 'webm-24khz-16bit-mono-opus'
+    });
+
+    assert(communicate instanceof Communicate, 'Should create Communicate instance with output format');
+    assert.throws(
+      () => new Communicate('Test text', { outputFormat: 'audio-1khz-mono-mp3' }),
+      ValueError,
+      'Should reject unsupported output formats'
+    );
+  });
+
+  test('Communicate requests the output format and expects its Content-Type', async () => {
+    let contentType = 'audio/webm; codecs=opus';
+    const restore = installFakeWebSocket({ respond: () => ({ contentType }) });
+    try {
+      const stream = () => new Communicate('Test', { outputFormat: 'webm-24khz-16bit-mono-opus' }).stream();
+      const audio = [];
+      for await (const chunk of stream()) {
+        audio.push(chunk.type);
+      }
+      assert.deepStrictEqual(audio, ['audio']);
+      const [config] = sentMessages('speech.config');
+      assert(config.includes('"outputFormat":"webm-24khz-16bit-mono-opus"'), config);
+
+      contentType = 'audio/mpeg';
+      await assert.rejects(async () => {
+        for await (const chunk of stream()) {
+          assert.fail(`Should not yield ${chunk.type}`);
+        }
+      }, UnexpectedResponse);
+    } finally {
+      restore();
+    }
+  });
+
+  test('Communicate accepts boundary options', () => {
+    const communicate = new Communicate('First sentence. Second sentence.', {
+      wordBoundaryEnabled: false,
+      sentenceBoundaryEnabled: true
+    });
+
+    assert(communicate instanceof Communicate, 'Should create Communicate instance with boundary options');
+  });
+
+  test('Communicate requests sentence boundaries and offsets them across chunks', async () => {
+    const restore = installFakeWebSocket({ respond: () => ({ sentences: ['Sentence'] }) });
+    try {
+      const communicate = new Communicate('word '.repeat(1000), {
+        wordBoundaryEnabled: false,
+        sentenceBoundaryEnabled: true
+      });
+      const boundaries = [];
+      for await (const chunk of communicate.stream()) {
+        if (chunk.type !== 'audio') boundaries.push([chunk.type, chunk.offset]);
+      }
+      const [config] = sentMessages('speech.config');
+      assert(config.includes('"sentenceBoundaryEnabled":"true","wordBoundaryEnabled":"false"'), config);
+      // Without decodable audio, the next chunk starts after the last boundary plus padding
+      assert.deepStrictEqual(boundaries, [['SentenceBoundary', 0], ['SentenceBoundary', 9_000_000 + 8_750_000]]);
+    } finally {
+      restore();
+    }
+  });
+
+  test('getMimeType follows the output format', () => {
+    assert.strictEqual(getMimeType('audio-48khz-192kbitrate-mono-mp3'), 'audio/mpeg');
+    assert.strictEqual(getMimeType('ogg-24khz-16bit-mono-opus'), 'audio/ogg');
+    assert.strictEqual(getMimeType('riff-24khz-16bit-mono-pcm'), 'audio/wav');
+    assert.strictEqual(getMimeType('raw-8khz-8bit-mono-mulaw'), 'audio/basic');
+  });
+
   test('SubMaker can process word boundary events', () => {
     const subMaker = new SubMaker();
     
@@ -52,4 +146,393 @@ describe('Streaming API', () => {
     const stream = communicate.stream();
     assert(typeof stream[Symbol.asyncIterator] === 'function', 'Should return async iterable');
   });
-});
\ No newline at end of file
+
+  test('Communicate stream rejects with AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const communicate = new Communicate('Test', {
+      voice: 'en-US-EmmaMultilingualNeural',
+      signal: controller.signal
+    });
+
+    await assert.rejects(async () => {
+      for await (const chunk of communicate.stream()) {
+        assert.fail(`Should not yield ${chunk.type}`);
+      }
+    }, AbortError);
+  });
+
+  const abortWhileConnecting = async (create, ErrorClass, options = {}) => {
+    const controller = new AbortController();
+    const restore = installFakeWebSocket({ ...options, onConnect: () => controller.abort() });
+    try {
+      await assert.rejects(async () => {
+        for await (const chunk of create(controller.signal).stream()) {
+          assert.fail(`Should not yield ${chunk.type}`);
+        }
+      }, ErrorClass);
+      assert.strictEqual(FakeWebSocket.sockets[0].readyState, FakeWebSocket.CLOSED);
+    } finally {
+      restore();
+    }
+  };
+
+  test('Communicate stream rejects with AbortError when the signal is aborted while connecting', { timeout: 5000 }, async () => {
+    await abortWhileConnecting(signal => new Communicate('Test', { signal }), AbortError);
+  });
+
+  test('IsomorphicCommunicate stream rejects with AbortError when the signal is aborted while connecting', { timeout: 5000 }, async () => {
+    await abortWhileConnecting(signal => new IsomorphicCommunicate('Test', { signal }), AbortError, { hideNode: true });
+  });
+
+  test('BrowserCommunicate stream rejects with AbortError when the signal is aborted while connecting', { timeout: 5000 }, async () => {
+    await abortWhileConnecting(signal => new BrowserCommunicate('Test', { signal }), BrowserAbortError);
+  });
+
+  test('Communicate validates concurrency', () => {
+    assert.doesNotThrow(() => new Communicate('Test', { concurrency: 4 }));
+    assert.throws(() => new Communicate('Test', { concurrency: 0 }), ValueError);
+    assert.throws(() => new Communicate('Test', { concurrency: 1.5 }), ValueError);
+  });
+
+  test('a failing parallel chunk rejects with its own error, not an AbortError', async () => {
+    const restore = installFakeWebSocket({
+      // The first chunk is still in flight when the second one fails
+      respond: ssml => ssml.includes('FAIL') ? { audio: false } : { delay: 100 },
+    });
+    try {
+      const communicate = new BrowserCommunicate(`${'word '.repeat(1000)}FAIL`, { concurrency: 2 });
+      await assert.rejects(async () => {
+        for await (const chunk of communicate.stream()) {
+          assert.strictEqual(chunk.type, 'audio');
+        }
+      }, BrowserNoAudioReceived);
+    } finally {
+      restore();
+    }
+  });
+
+  test('a chunk failing while an earlier one is streaming rejects with its own error', async () => {
+    const restore = installFakeWebSocket({
+      // The first chunk has sent its audio but not yet ended its turn
+      respond: ssml => ssml.includes('FAIL') ? { audio: false, delay: 50 } : { endDelay: 500 },
+    });
+    try {
+      const received = [];
+      await assert.rejects(async () => {
+        for await (const chunk of new Communicate(`${'word '.repeat(1000)}FAIL`, { concurrency: 2 }).stream()) {
+          received.push(chunk.type);
+        }
+      }, NoAudioReceived);
+      assert.deepStrictEqual(received, ['audio']);
+    } finally {
+      restore();
+    }
+  });
+
+  test('isRetryableError retries transient failures only', () => {
+    assert.strictEqual(isRetryableError(new WebSocketError('dropped')), true);
+    assert.strictEqual(isRetryableError(new NoAudioReceived('No audio was received.')), true);
+    assert.strictEqual(isRetryableError(new AbortError('Synthesis was aborted.')), false);
+    assert.strictEqual(isRetryableError(new ValueError('Invalid voice')), false);
+  });
+
+  test('WebSocketError carries the handshake status', () => {
+    const error = new WebSocketError('Unexpected server response: 403', 403, { date: 'Mon, 01 Jan 2024 00:00:00 GMT' });
+    assert.strictEqual(error.status, 403);
+    assert.strictEqual(error.headers.date, 'Mon, 01 Jan 2024 00:00:00 GMT');
+    assert.strictEqual(new WebSocketError('dropped').status, undefined);
+
+    assert.strictEqual(isRetryableError(error), false);
+    assert.strictEqual(isRetryableError(new WebSocketError('Unexpected server response: 429', 429)), true);
+    assert.strictEqual(isRetryableError(new WebSocketError('Unexpected server response: 503', 503)), true);
+  });
+
+  test('Communicate adjusts the clock after a 403 handshake and reconnects once', async () => {
+    // An hour ahead, so that the token of the retry falls in another 5 minute window
+    const date = new Date(Date.now() + 3_600_000).toUTCString();
+    let rejections = 1;
+    const restore = installFakeWebSocket({
+      reject: () => (rejections-- > 0 ? { status: 403, headers: { date } } : undefined),
+    });
+    try {
+      const audio = [];
+      for await (const chunk of new Communicate('Test').stream()) {
+        audio.push(chunk.type);
+      }
+      const tokens = FakeWebSocket.sockets.map(socket => new URL(socket.url).searchParams.get('Sec-MS-GEC'));
+      assert.deepStrictEqual(audio, ['audio']);
+      assert.strictEqual(tokens.length, 2);
+      assert.notStrictEqual(tokens[0], tokens[1]);
+
+      // A second 403 is not retried again
+      rejections = Infinity;
+      FakeWebSocket.sockets = [];
+      await assert.rejects(async () => {
+        for await (const chunk of new Communicate('Test').stream()) {
+          assert.fail(`Should not yield ${chunk.type}`);
+        }
+      }, error => error instanceof WebSocketError && error.status === 403);
+      assert.strictEqual(FakeWebSocket.sockets.length, 2);
+    } finally {
+      restore();
+    }
+  });
+
+  test('BrowserCommunicate checks a failed handshake for a 403 and adjusts the clock', async () => {
+    const date = new Date(Date.now() + 3_600_000).toUTCString();
+    const restore = installFakeWebSocket({ reject: () => ({ status: 403 }) });
+    const { fetch } = globalThis;
+    const probes = [];
+    globalThis.fetch = async url => {
+      probes.push(url);
+      return new Response(null, { status: 403, headers: { date } });
+    };
+    try {
+      await assert.rejects(async () => {
+        for await (const chunk of new BrowserCommunicate('Test').stream()) {
+          assert.fail(`Should not yield ${chunk.type}`);
+        }
+      }, error => error instanceof BrowserWebSocketError && error.status === 403);
+      // One retry after the first 403
+      assert.strictEqual(probes.length, 2);
+      assert(Math.abs(BrowserDRM.getUnixTimestamp() - Date.now() / 1000 - 3600) < 60);
+    } finally {
+      globalThis.fetch = fetch;
+      restore();
+    }
+  });
+
+  test('Communicate does not retry an aborted stream', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    let retries = 0;
+    const communicate = new Communicate('Test', {
+      signal: controller.signal,
+      retry: { maxAttempts: 3, initialDelay: 0, isRetryable: () => ++retries > 0 }
+    });
+
+    await assert.rejects(async () => {
+      for await (const chunk of communicate.stream()) {
+        assert.fail(`Should not yield ${chunk.type}`);
+      }
+    }, AbortError);
+    assert.strictEqual(retries, 0);
+  });
+
+  test('Communicate retries a chunk only until its output was yielded', async () => {
+    const retry = { maxAttempts: 3, initialDelay: 0 };
+    let attempts = 0;
+    let restore = installFakeWebSocket({ respond: () => (++attempts === 1 ? { audio: false } : {}) });
+    try {
+      const audio = [];
+      for await (const chunk of new BrowserCommunicate('Test', { retry }).stream()) {
+        audio.push([...chunk.data]);
+      }
+      assert.strictEqual(attempts, 2);
+      assert.deepStrictEqual(audio, [[1, 2, 3, 4]]);
+    } finally {
+      restore();
+    }
+
+    // A new attempt could produce different audio, so a partial chunk is not resumed
+    attempts = 0;
+    restore = installFakeWebSocket({ respond: () => (++attempts, { drop: true }) });
+    try {
+      await assert.rejects(async () => {
+        for await (const chunk of new BrowserCommunicate('Test', { retry }).stream()) {
+          assert.strictEqual(chunk.type, 'audio');
+        }
+      }, BrowserWebSocketError);
+      assert.strictEqual(attempts, 1);
+    } finally {
+      restore();
+    }
+  });
+});
+
+// Each Communicate class with the fake socket options it needs
+const IMPLEMENTATIONS = [
+  ['Communicate', Communicate, {}],
+  ['IsomorphicCommunicate', IsomorphicCommunicate, { hideNode: true }],
+  ['BrowserCommunicate', BrowserCommunicate, {}],
+];
+
+describe('Connection reuse', () => {
+  // Three text chunks
+  const TEXT = 'word '.repeat(2000);
+
+  const synthesize = async (Class, options = {}) => {
+    const chunks = [];
+    for await (const chunk of new Class(TEXT, { reuseConnection: true, ...options }).stream()) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  for (const [name, Class, fake] of IMPLEMENTATIONS) {
+    test(`${name} sends all chunks over one connection`, async () => {
+      const restore = installFakeWebSocket({ ...fake, respond: () => ({ words: ['word'] }) });
+      try {
+        const chunks = await synthesize(Class);
+        assert.strictEqual(chunks.filter(chunk => chunk.type === 'audio').length, 3);
+        assert.strictEqual(FakeWebSocket.sockets.length, 1);
+        assert.strictEqual(sentMessages('speech.config').length, 1);
+        assert.strictEqual(sentMessages('ssml').length, 3);
+      } finally {
+        restore();
+      }
+    });
+
+    test(`${name} drops messages of other requests`, async () => {
+      const restore = installFakeWebSocket({ ...fake, respond: () => ({ words: ['word'], stray: true }) });
+      try {
+        const chunks = await synthesize(Class);
+        assert.deepStrictEqual(chunks.map(chunk => chunk.type === 'audio' ? [...chunk.data] : chunk.text), [
+          'word', [1, 2, 3, 4], 'word', [1, 2, 3, 4], 'word', [1, 2, 3, 4],
+        ]);
+      } finally {
+        restore();
+      }
+    });
+
+    test(`${name} reconnects when the reused connection closes before the turn starts`, async () => {
+      let requests = 0;
+      const restore = installFakeWebSocket({ ...fake, respond: () => (++requests === 2 ? { close: true } : {}) });
+      try {
+        const chunks = await synthesize(Class);
+        assert.strictEqual(chunks.length, 3);
+        assert.strictEqual(FakeWebSocket.sockets.length, 2);
+        assert.strictEqual(requests, 4);
+      } finally {
+        restore();
+      }
+    });
+
+    test(`${name} does not reuse the connection of a failed turn`, async () => {
+      let requests = 0;
+      const restore = installFakeWebSocket({ ...fake, respond: () => (++requests === 1 ? { audio: false } : {}) });
+      try {
+        const chunks = await synthesize(Class, { retry: { maxAttempts: 2, initialDelay: 0 } });
+        assert.strictEqual(chunks.length, 3);
+        const [failed, retried] = FakeWebSocket.sockets;
+        assert.strictEqual(FakeWebSocket.sockets.length, 2);
+        assert.strictEqual(failed.readyState, FakeWebSocket.CLOSED);
+        assert.strictEqual(failed.sent.filter(message => message.includes('Path:ssml')).length, 1);
+        assert.strictEqual(retried.sent.filter(message => message.includes('Path:ssml')).length, 3);
+      } finally {
+        restore();
+      }
+    });
+  }
+});
+
+describe('Exact duration compensation', () => {
+  // MPEG-2 Layer III, 48 kbit/s, 24 kHz: 144 bytes and 24 ms per frame
+  const mp3Frames = count => {
+    const data = new Uint8Array(144 * count);
+    for (let i = 0; i < count; i++) data.set([0xff, 0xf3, 0x64, 0xc4], i * 144);
+    return data;
+  };
+  const cases = [
+    ['MP3 frames', 'audio-24khz-48kbitrate-mono-mp3', 'audio/mpeg', mp3Frames(10), 2_400_000],
+    // 24 kHz 16-bit mono: 48000 bytes per second
+    ['PCM', 'raw-24khz-16bit-mono-pcm', 'audio/x-wav', new Uint8Array(4800), 1_000_000],
+  ];
+
+  for (const [name, Class, fake] of IMPLEMENTATIONS) {
+    for (const [audioName, outputFormat, contentType, audio, duration] of cases) {
+      test(`${name} starts the next chunk where the ${audioName} of the previous one end`, async () => {
+        // The word ends at 0.9 s, after the audio, so the estimate would differ
+        const restore = installFakeWebSocket({ ...fake, respond: () => ({ audio, contentType, words: ['word'] }) });
+        try {
+          const offsets = [];
+          for await (const chunk of new Class('word '.repeat(1000), { outputFormat }).stream()) {
+            if (chunk.type === 'WordBoundary') offsets.push(chunk.offset);
+          }
+          assert.deepStrictEqual(offsets, [0, duration]);
+        } finally {
+          restore();
+        }
+      });
+    }
+  }
+});
+
+describe('Source text mapping', () => {
+  const clean = text => text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ' ');
+
+  test('maps boundaries across escaping, chunk splits and trimming', () => {
+    const text = '  Tom & Jerry\u0007 <3 cats.\n\nThe "end".';
+    const locator = new SourceLocator(text, clean);
+
+    const first = locator.next('Tom &amp; Jerry  &lt;3');
+    assert.deepStrictEqual(first.locate('WordBoundary', 'Tom'), { sourceStart: 2, sourceEnd: 5 });
+    assert.deepStrictEqual(first.locate('WordBoundary', 'Jerry'), { sourceStart: 8, sourceEnd: 13 });
+    assert.deepStrictEqual(first.locate('WordBoundary', '<3'), { sourceStart: 15, sourceEnd: 17 });
+
+    const second = locator.next('cats.\n\nThe &quot;end&quot;.');
+    assert.deepStrictEqual(second.locate('SentenceBoundary', 'cats.'), { sourceStart: 18, sourceEnd: 23 });
+    assert.deepStrictEqual(second.locate('WordBoundary', 'cats'), { sourceStart: 18, sourceEnd: 22 });
+    assert.deepStrictEqual(second.locate('WordBoundary', 'end'), { sourceStart: 30, sourceEnd: 33 });
+    assert.strictEqual(text.slice(30, 33), 'end');
+  });
+
+  test('finds repeated words in order and restarts after a retry', () => {
+    const text = 'one two one two';
+    const source = new SourceLocator(text, clean).next(text);
+    assert.deepStrictEqual(source.locate('WordBoundary', 'two'), { sourceStart: 4, sourceEnd: 7 });
+    assert.deepStrictEqual(source.locate('WordBoundary', 'two'), { sourceStart: 12, sourceEnd: 15 });
+    assert.strictEqual(source.locate('WordBoundary', 'three'), undefined);
+
+    source.reset();
+    assert.deepStrictEqual(source.locate('WordBoundary', 'two'), { sourceStart: 4, sourceEnd: 7 });
+  });
+
+  test('matches sentences with normalized whitespace and removed characters', () => {
+    const text = 'Hello (big)\nworld.';
+    // Cleanup that removes characters, like the universal build
+    const locator = new SourceLocator(text, chunk => chunk.replace(/[()]/g, ''));
+    const source = locator.next('Hello big\nworld.');
+    assert.deepStrictEqual(source.locate('WordBoundary', 'big'), { sourceStart: 7, sourceEnd: 10 });
+    assert.deepStrictEqual(source.locate('SentenceBoundary', 'Hello big world.'), { sourceStart: 0, sourceEnd: 18 });
+  });
+});
+
+describe('Sentence chunking', () => {
+  test('prefers paragraph, then sentence, then clause boundaries', () => {
+    const text = 'First sentence here. Second one, with a clause; and more words. Third!\n\nNew paragraph.';
+    assert.deepStrictEqual(splitTextBySentence(text, 80), [
+      'First sentence here. Second one, with a clause; and more words. Third!',
+      'New paragraph.',
+    ]);
+    assert.deepStrictEqual(splitTextBySentence(text, 60), [
+      'First sentence here.',
+      'Second one, with a clause; and more words. Third!',
+      'New paragraph.',
+    ]);
+    assert.deepStrictEqual(splitTextBySentence('One, two, three and four', 15), ['One, two,', 'three and four']);
+  });
+
+  test('limits the escaped byte length', () => {
+    const chunks = splitTextBySentence('Tom & Jerry <3 "cats".', 22);
+    assert.deepStrictEqual(chunks, ['Tom &amp; Jerry &lt;3', '&quot;cats&quot;.']);
+    assert.deepStrictEqual(splitTextBySentence('a'.repeat(25), 10), ['a'.repeat(10), 'a'.repeat(10), 'a'.repeat(5)]);
+    assert.deepStrictEqual(splitTextBySentence('  ', 10), []);
+  });
+
+  test('splits CJK and Thai text without spaces', () => {
+    assert.deepStrictEqual(
+      splitTextBySentence('今天天气很好。我们去公园散步吧！明天见，朋友们。', 40, 'zh-CN'),
+      ['今天天气很好。', '我们去公园散步吧！', '明天见，朋友们。'],
+    );
+    const thai = splitTextBySentence('สวัสดีครับ วันนี้อากาศดีมาก', 40, 'th-TH');
+    assert.strictEqual(thai[0], 'สวัสดีครับ');
+    assert.strictEqual(thai.join(''), 'สวัสดีครับวันนี้อากาศดีมาก');
+  });
+
+  test('Communicate validates the chunking strategy', () => {
+    assert.doesNotThrow(() => new Communicate('Hello. World.', { chunking: 'sentence' }));
+    assert.throws(() => new Communicate('Hello', { chunking: 'words' }), ValueError);
+  });
+});
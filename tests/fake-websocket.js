@@ -0,0 +1,220 @@
+// Stand-in for the WebSocket that answers like the speech service, so the Communicate
+// classes can be tested without a network connection.
+import { EventEmitter } from 'node:events';
+import { createRequire } from 'node:module';
+
+// Communicate loads the ws library through isomorphic-ws. The cached module is replaced
+// with a constructor that creates FakeNodeWebSocket while a fake is installed, so this
+// file must be imported before the library in each test file.
+const require = createRequire(import.meta.url);
+const wsPath = require.resolve('ws');
+const RealNodeWebSocket = require(wsPath);
+let installed = false;
+
+function NodeWebSocket(...args) {
+  return installed ? new FakeNodeWebSocket(...args) : new RealNodeWebSocket(...args);
+}
+Object.assign(NodeWebSocket, RealNodeWebSocket, { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 });
+require.cache[wsPath].exports = NodeWebSocket;
+
+/**
+ * Installs FakeWebSocket as the global WebSocket and FakeNodeWebSocket in place of the
+ * ws library. `respond` is called with the text of each SSML request and returns how to
+ * answer it:
+ * - `audio`: `false` ends the turn without audio, a Uint8Array replaces the default audio
+ * - `contentType`: Content-Type of the audio (default: audio/mpeg)
+ * - `words`, `sentences`: sent as word and sentence boundaries, one second apart
+ * - `delay`: postpones the answer in milliseconds
+ * - `endDelay`: postpones the end of the turn after the audio in milliseconds
+ * - `drop`: closes the socket after the audio instead of ending the turn
+ * - `close`: closes the socket instead of answering
+ * - `stray`: first sends a complete turn under another X-RequestId
+ *
+ * `onConnect` is called with each new socket. `reject` is called with each new socket
+ * and may return `{ status, headers }` to reject its handshake. With `hideNode`,
+ * `process.versions.node` is hidden so that IsomorphicCommunicate uses the global
+ * WebSocket as in a browser.
+ * Returns a function that restores the previous state.
+ */
+export function installFakeWebSocket({
+  respond = () => ({}),
+  onConnect = () => {},
+  reject = () => undefined,
+  hideNode = false,
+} = {}) {
+  const previous = globalThis.WebSocket;
+  const node = Object.getOwnPropertyDescriptor(process.versions, 'node');
+  FakeWebSocket.respond = respond;
+  FakeWebSocket.onConnect = onConnect;
+  FakeWebSocket.reject = reject;
+  FakeWebSocket.sockets = [];
+  globalThis.WebSocket = FakeWebSocket;
+  installed = true;
+  if (hideNode) {
+    Object.defineProperty(process.versions, 'node', { ...node, value: undefined });
+  }
+  return () => {
+    globalThis.WebSocket = previous;
+    installed = false;
+    Object.defineProperty(process.versions, 'node', node);
+  };
+}
+
+/** Returns the text of the messages sent on all sockets whose Path is `path` */
+export function sentMessages(path) {
+  return FakeWebSocket.sockets.flatMap(socket => socket.sent).filter(message => message.includes(`Path:${path}\r\n`));
+}
+
+export class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  CONNECTING = 0;
+  OPEN = 1;
+  CLOSING = 2;
+  CLOSED = 3;
+
+  constructor(url) {
+    this.url = url;
+    this.readyState = FakeWebSocket.CONNECTING;
+    this.binaryType = 'blob';
+    this.sent = [];
+    FakeWebSocket.sockets.push(this);
+    FakeWebSocket.onConnect(this);
+    const rejection = FakeWebSocket.reject(this);
+    setTimeout(() => {
+      if (this.readyState !== FakeWebSocket.CONNECTING) {
+        return;
+      }
+      if (rejection) {
+        this.rejected(rejection);
+      } else {
+        this.readyState = FakeWebSocket.OPEN;
+        this.opened();
+      }
+    }, 0);
+  }
+
+  send(message) {
+    this.sent.push(message);
+    if (!message.includes('Path:ssml')) {
+      return;
+    }
+    const requestId = /X-RequestId:(\w+)/.exec(message)[1];
+    const answer = FakeWebSocket.respond(message);
+    setTimeout(() => {
+      if (this.readyState !== FakeWebSocket.OPEN) {
+        return;
+      }
+      if (answer.close) {
+        this.close();
+        return;
+      }
+      if (answer.stray) {
+        this.answer('0'.repeat(32), { words: ['Stray'], audio: new Uint8Array([9, 9]) });
+      }
+      this.answer(requestId, answer);
+    }, answer.delay ?? 0);
+  }
+
+  answer(requestId, { audio = true, contentType = 'audio/mpeg', words = [], sentences = [], drop = false, endDelay = 0 }) {
+    this.text(requestId, 'turn.start');
+    const boundaries = (type, texts) => texts.forEach((text, index) => {
+      const data = { Offset: index * 10_000_000, Duration: 9_000_000, text: { Text: text } };
+      this.text(requestId, 'audio.metadata', { Metadata: [{ Type: type, Data: data }] });
+    });
+    boundaries('SentenceBoundary', sentences);
+    boundaries('WordBoundary', words);
+    if (audio) {
+      this.audio(requestId, audio === true ? new Uint8Array([1, 2, 3, 4]) : audio, contentType);
+    }
+    if (drop) {
+      this.close();
+      return;
+    }
+    if (endDelay) {
+      setTimeout(() => this.readyState === FakeWebSocket.OPEN && this.text(requestId, 'turn.end'), endDelay);
+      return;
+    }
+    this.text(requestId, 'turn.end');
+  }
+
+  close() {
+    if (this.readyState >= FakeWebSocket.CLOSING) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSED;
+    setTimeout(() => this.closed(), 0);
+  }
+
+  text(requestId, path, body = {}) {
+    this.received(new TextEncoder().encode(`X-RequestId:${requestId}\r\nPath:${path}\r\n\r\n${JSON.stringify(body)}`), false);
+  }
+
+  audio(requestId, data, contentType) {
+    const headers = new TextEncoder().encode(`X-RequestId:${requestId}\r\nContent-Type:${contentType}\r\nPath:audio\r\n`);
+    const message = new Uint8Array(2 + headers.length + data.length);
+    message[0] = headers.length >> 8;
+    message[1] = headers.length & 0xff;
+    message.set(headers, 2);
+    message.set(data, 2 + headers.length);
+    this.received(message, true);
+  }
+
+  // Events as the browser WebSocket API delivers them, which hides the handshake response
+
+  opened() {
+    this.onopen?.();
+  }
+
+  rejected() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onerror?.({});
+    this.onclose?.();
+  }
+
+  received(data, isBinary) {
+    this.onmessage?.({ data: isBinary ? data.buffer : new TextDecoder().decode(data) });
+  }
+
+  closed() {
+    this.onclose?.();
+  }
+}
+
+/** FakeWebSocket with the event API of the ws library, as used by Communicate in Node.js */
+export class FakeNodeWebSocket extends FakeWebSocket {
+  events = new EventEmitter();
+
+  on(event, listener) {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  once(event, listener) {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  removeAllListeners() {
+    this.events.removeAllListeners();
+    return this;
+  }
+
+  opened() {
+    this.events.emit('open');
+  }
+
+  rejected({ status, headers = {} }) {
+    this.events.emit('unexpected-response', {}, { statusCode: status, headers, resume: () => {} });
+  }
+
+  received(data, isBinary) {
+    this.events.emit('message', Buffer.from(data), isBinary);
+  }
+
+  closed() {
+    this.events.emit('close');
+  }
+}
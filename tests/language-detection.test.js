@@ -0,0 +1,103 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  Communicate,
+  ValueError,
+  VoicesManager,
+  detectLanguage,
+  segmentByLanguage,
+  selectVoice
+} from '../dist/index.js';
+
+function voice(shortName, gender, personalities = [], categories = ['General']) {
+  const [language, region, name] = shortName.split('-');
+  return {
+    Name: `Microsoft Server Speech Text to Speech Voice (${language}-${region}, ${name})`,
+    ShortName: shortName,
+    Gender: gender,
+    Locale: `${language}-${region}`,
+    SuggestedCodec: 'audio-24khz-48kbitrate-mono-mp3',
+    FriendlyName: name,
+    Status: 'GA',
+    VoiceTag: { ContentCategories: categories, VoicePersonalities: personalities },
+  };
+}
+
+const VOICES = [
+  voice('en-GB-SoniaNeural', 'Female', ['Friendly']),
+  voice('en-US-AriaNeural', 'Female', ['Positive', 'Confident'], ['News', 'Novel']),
+  voice('en-US-GuyNeural', 'Male', ['Passion'], ['News']),
+  voice('en-US-JennyNeural', 'Female', ['Friendly', 'Considerate']),
+  voice('fr-CA-SylvieNeural', 'Female'),
+  voice('fr-FR-DeniseNeural', 'Female'),
+  voice('fr-FR-HenriNeural', 'Male'),
+  voice('zh-CN-XiaoxiaoNeural', 'Female'),
+  voice('zh-TW-HsiaoChenNeural', 'Female'),
+  voice('ja-JP-NanamiNeural', 'Female'),
+];
+
+describe('Automatic voice selection', () => {
+  test('detectLanguage identifies the language and script', () => {
+    const cases = [
+      ['The weather is nice and we can go out.', 'en', 'Latn'],
+      ['Où est la gare ? Je ne sais pas.', 'fr', 'Latn'],
+      ['Der Hund ist nicht groß, aber er ist schnell.', 'de', 'Latn'],
+      ['El perro es muy rápido y no está aquí.', 'es', 'Latn'],
+      ['Привет, как дела? Это не так.', 'ru', 'Cyrl'],
+      ['Привіт, як справи? Це не так і він є.', 'uk', 'Cyrl'],
+      ['سلام، این یک کتاب است', 'fa', 'Arab'],
+      ['東京は日本の首都です。', 'ja', 'Jpan'],
+      ['我们这个国家很大。', 'zh', 'Hans'],
+      ['我們這個國家很大。', 'zh', 'Hant'],
+      ['안녕하세요', 'ko', 'Hang'],
+    ];
+    for (const [text, language, script] of cases) {
+      const detected = detectLanguage(text);
+      assert.deepStrictEqual([detected?.language, detected?.script], [language, script], text);
+      assert(detected.confidence > 0 && detected.confidence <= 1);
+    }
+    assert.strictEqual(detectLanguage('42 %'), undefined);
+    assert.strictEqual(detectLanguage('Hello'), undefined);
+  });
+
+  test('segmentByLanguage merges paragraphs and covers the text', () => {
+    const text = '# Intro\n\nThis is the first part of the text.\n\n¿Dónde está la estación? No lo sé.\n\nMerci!\n\nAnd back to English for the end.';
+    const segments = segmentByLanguage(text);
+    assert.deepStrictEqual(segments.map(segment => segment.language.language), ['en', 'es', 'en']);
+    assert.strictEqual(segments.map(segment => segment.text).join(''), text);
+    assert.strictEqual(segments[1].text, text.slice(segments[1].start, segments[1].end));
+    assert(segments[1].text.includes('Merci!'));
+
+    const [document] = segmentByLanguage(text, 'document');
+    assert.strictEqual(document.text, text);
+    assert.strictEqual(document.language.language, 'en');
+  });
+
+  test('selectVoice prefers the locale, gender and voice tags', async () => {
+    const voices = await VoicesManager.create(VOICES);
+    const english = detectLanguage('The weather is nice and we can go out.');
+    assert.strictEqual(selectVoice(voices, english), 'en-US-AriaNeural');
+    assert.strictEqual(selectVoice(voices, english, { gender: 'Male' }), 'en-US-GuyNeural');
+    assert.strictEqual(selectVoice(voices, english, { personalities: ['Friendly'] }), 'en-US-JennyNeural');
+    assert.strictEqual(selectVoice(voices, english, { locales: { en: 'en-GB' } }), 'en-GB-SoniaNeural');
+    assert.strictEqual(selectVoice(voices, detectLanguage('Je ne sais pas où est la gare.'), { gender: 'Male' }), 'fr-FR-HenriNeural');
+    assert.strictEqual(selectVoice(voices, detectLanguage('我們這個國家很大。')), 'zh-TW-HsiaoChenNeural');
+    // Languages without voices, and text without a language, use the fallback voice
+    assert.strictEqual(selectVoice(voices, detectLanguage('안녕하세요')), 'en-US-EmmaMultilingualNeural');
+    assert.strictEqual(selectVoice(voices, undefined, { fallback: 'en-GB-SoniaNeural' }), 'en-GB-SoniaNeural');
+  });
+
+  test('Communicate accepts voice auto for plain text only', async () => {
+    const voices = await VoicesManager.create(VOICES);
+    assert.doesNotThrow(() => new Communicate('Hello.\n\nBonjour, je suis là.', {
+      voice: 'auto',
+      autoVoice: { voices, gender: 'Female' },
+      chunking: 'sentence',
+    }));
+    assert.throws(() => new Communicate('Hello', { voice: 'auto', autoVoice: { fallback: 'invalid' } }), ValueError);
+    assert.throws(
+      () => Communicate.fromSsml("<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'><voice name='en-US-AriaNeural'>Hi</voice></speak>", { voice: 'auto' }),
+      ValueError
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { installFakeWebSocket } from './fake-websocket.js';
+import {
+  Communicate,
+  htmlToSsml,
+  htmlToText,
+  markdownToSsml,
+  markdownToText,
+  validateSsml
+} from '../dist/index.js';
+import { Communicate as BrowserCommunicate } from '../dist/browser.js';
+
+const MARKDOWN = `# Getting **Started**
+
+Install the [package](https://www.npmjs.com/package/x) with \`npm\`. See <https://www.example.com/docs>.
+
+1. First *step*
+2. Second step,
+   continued
+
+\`\`\`bash
+npm install x
+\`\`\`
+
+| Name | Value |
+|------|-------|
+| size | 1 kB  |
+
+snake_case and \\*stars\\* ![A logo](logo.png)[^1]
+`;
+
+const HTML = `<html><head><title>Ignored</title><style>p { color: red }</style></head><body>
+<h1>Tom &amp; Jerry</h1>
+<p>Hello <a href="https://example.com">world</a>!<br>Next&nbsp;line</p>
+<script>if (a < b) { alert('x'); }</script>
+<ol start="3"><li>Three</li><li><p>Four</p></li></ol>
+<ul><li>Dot</li></ul>
+<pre class="language-js"><code>let x = 1;</code></pre>
+<img src="cat.png" alt="A cat">
+</body></html>`;
+
+describe('Markdown and HTML preprocessing', () => {
+  test('markdownToText removes markup and punctuates blocks', () => {
+    assert.strictEqual(markdownToText(MARKDOWN), [
+      'Getting Started.',
+      'Install the package with npm. See example.com.',
+      '1. First step.\n2. Second step, continued.',
+      'bash code sample.',
+      'Name, Value.',
+      'size, 1 kB.',
+      'snake_case and *stars* A logo',
+    ].join('\n\n'));
+  });
+
+  test('code blocks can be skipped or summarized', () => {
+    const markdown = '```ts\nconst x = 1;\n```\n\n    indented code\n\nText';
+    assert.strictEqual(markdownToText(markdown, { codeBlocks: 'skip' }), 'Text');
+    assert.strictEqual(
+      markdownToText(markdown, { codeSummary: language => `Code${language ? ` in ${language}` : ''}.` }),
+      'Code in ts.\n\nCode.\n\nText'
+    );
+  });
+
+  test('htmlToText skips scripts and styles and enumerates lists', () => {
+    assert.strictEqual(htmlToText(HTML), [
+      'Tom & Jerry.',
+      'Hello world! Next line',
+      '3. Three.\n4. Four.\nDot.',
+      'js code sample.',
+      'A cat',
+    ].join('\n\n'));
+  });
+
+  test('markdownToSsml and htmlToSsml build valid documents', () => {
+    const fromMarkdown = markdownToSsml(MARKDOWN, { voice: 'en-GB-SoniaNeural', lang: 'en-GB' }).toString();
+    assert.doesNotThrow(() => validateSsml(fromMarkdown));
+    assert(fromMarkdown.includes("xml:lang='en-GB'"));
+    assert(fromMarkdown.includes("<p><emphasis level='moderate'>Getting Started.</emphasis></p><break strength='strong'/>"));
+    assert(fromMarkdown.includes('<p><s>1. First step.</s><s>2. Second step, continued.</s></p>'));
+
+    const fromHtml = htmlToSsml(HTML, { codeBlocks: 'skip' }).toString();
+    assert.doesNotThrow(() => validateSsml(fromHtml));
+    assert(fromHtml.includes('Tom &amp; Jerry.'));
+    assert(!fromHtml.includes('code sample'));
+  });
+
+  test('boundaries of preprocessed input have no source offsets', async () => {
+    const restore = installFakeWebSocket({ respond: () => ({ words: ['Title'] }) });
+    const boundaries = async (text, options) => {
+      const result = [];
+      for await (const chunk of new BrowserCommunicate(text, options).stream()) {
+        if (chunk.type === 'WordBoundary') result.push([chunk.sourceStart, chunk.sourceEnd]);
+      }
+      return result;
+    };
+    try {
+      assert.deepStrictEqual(await boundaries('# **Title**', { preprocess: 'markdown' }), [[undefined, undefined]]);
+      assert.deepStrictEqual(await boundaries('Title.'), [[0, 5]]);
+    } finally {
+      restore();
+    }
+  });
+
+  test('Communicate accepts a preprocessor', () => {
+    assert.doesNotThrow(() => new Communicate('# Title', { preprocess: 'markdown' }));
+    assert.doesNotThrow(() => new Communicate('<p>Hi</p>', { preprocess: 'html' }));
+    assert.doesNotThrow(() => new Communicate('Hi', { preprocess: text => text.toUpperCase() }));
+  });
+});
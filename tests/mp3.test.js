@@ -0,0 +1,149 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  ValueError,
+  addId3Tag,
+  chaptersFromBoundaries,
+  chaptersFromSegments,
+  concatSyntheses,
+  createId3Tag,
+  getDuration,
+  getFrameOffsets,
+  parseFrameHeader,
+  scanMp3,
+  tickToByteOffset
+} from '../dist/index.js';
+
+// MPEG-2 Layer III, 48 kbit/s, 24 kHz: 144 bytes and 24 ms per frame
+function frame() {
+  const data = new Uint8Array(144);
+  data.set([0xff, 0xf3, 0x64, 0xc4]);
+  return data;
+}
+
+function concat(...parts) {
+  const data = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+describe('MP3 frame parsing', () => {
+  test('parseFrameHeader reads frame fields', () => {
+    const header = parseFrameHeader(frame(), 0);
+    assert.deepStrictEqual(header, {
+      version: 2,
+      layer: 3,
+      bitrate: 48,
+      sampleRate: 24000,
+      samples: 576,
+      frameLength: 144
+    });
+    assert.strictEqual(parseFrameHeader(new Uint8Array([0, 0, 0, 0]), 0), null);
+  });
+
+  test('scanMp3 reports frames, duration and bitrate', () => {
+    const info = scanMp3(concat(frame(), frame(), frame()));
+    assert.strictEqual(info.frameCount, 3);
+    assert.strictEqual(info.duration, 720_000);
+    assert.strictEqual(info.bitrate, 48);
+    assert.strictEqual(info.sampleRate, 24000);
+    assert.deepStrictEqual(info.frames.map(f => f.start), [0, 240_000, 480_000]);
+  });
+
+  test('scanMp3 skips ID3v2 tags, garbage and truncated frames', () => {
+    const tag = new Uint8Array(20);
+    tag.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10]);
+    const data = concat(tag, frame(), new Uint8Array(3), frame(), frame().subarray(0, 100));
+    assert.deepStrictEqual(getFrameOffsets(data), [20, 167]);
+    assert.strictEqual(getDuration(data), 480_000);
+  });
+
+  test('getDuration works on Buffer', () => {
+    assert.strictEqual(getDuration(Buffer.from(concat(frame(), frame()))), 480_000);
+  });
+
+  test('tickToByteOffset maps offsets to frame positions', () => {
+    const info = scanMp3(concat(frame(), frame(), frame()));
+    assert.strictEqual(tickToByteOffset(info, 0), 0);
+    assert.strictEqual(tickToByteOffset(info, 239_999), 0);
+    assert.strictEqual(tickToByteOffset(info, 240_000), 144);
+    assert.strictEqual(tickToByteOffset(info, 500_000), 288);
+    assert.strictEqual(tickToByteOffset(info, 720_000), 432);
+  });
+});
+
+describe('Audio concatenation', () => {
+  test('concatSyntheses inserts silence and shifts offsets', async () => {
+    const first = { audio: concat(frame(), frame()), subtitle: [{ offset: 0, duration: 100_000, text: 'Hello' }] };
+    const second = { audio: new Blob([concat(frame())]), subtitle: [{ offset: 10_000, duration: 100_000, text: 'world' }] };
+    const result = await concatSyntheses([first, second], { silence: 100 });
+
+    // 100 ms rounds to 4 silent frames of 24 ms
+    const info = scanMp3(result.audio);
+    assert.strictEqual(info.frameCount, 7);
+    assert.strictEqual(result.duration, 1_680_000);
+    assert.deepStrictEqual(result.segments, [
+      { offset: 0, duration: 480_000 },
+      { offset: 1_440_000, duration: 240_000 }
+    ]);
+    assert.deepStrictEqual(result.subtitle.map(b => b.offset), [0, 1_450_000]);
+    assert.strictEqual(result.subtitle[1].text, 'world');
+  });
+
+  test('concatSyntheses validates input', async () => {
+    const segment = { audio: concat(frame()), subtitle: [] };
+    await assert.rejects(concatSyntheses([segment, segment], { silence: [100, 200] }), ValueError);
+    await assert.rejects(concatSyntheses([segment, segment], { silence: -1 }), ValueError);
+    await assert.rejects(concatSyntheses([segment, { audio: new Uint8Array(10), subtitle: [] }]), ValueError);
+  });
+});
+
+describe('ID3 tags', () => {
+  function frameIds(tag) {
+    const ids = [];
+    for (let offset = 10; offset + 10 <= tag.length;) {
+      ids.push(String.fromCharCode(...tag.subarray(offset, offset + 4)));
+      offset += 10 + new DataView(tag.buffer, tag.byteOffset).getUint32(offset + 4);
+    }
+    return ids;
+  }
+
+  test('createId3Tag writes text, picture and chapter frames', () => {
+    const tag = createId3Tag({
+      title: 'Title',
+      artist: 'Ärtist',
+      cover: { data: new Uint8Array([1, 2, 3]), mimeType: 'image/png' },
+      chapters: [{ title: 'One', start: 0, end: 240_000 }, { title: 'Zwei', start: 240_000, end: 480_000 }]
+    });
+    assert.deepStrictEqual([...tag.subarray(0, 4)], [0x49, 0x44, 0x33, 3]);
+    assert.strictEqual(tag[9] + (tag[8] << 7), tag.length - 10);
+    assert.deepStrictEqual(frameIds(tag), ['TIT2', 'TPE1', 'APIC', 'CTOC', 'CHAP', 'CHAP']);
+  });
+
+  test('addId3Tag replaces an existing tag and keeps frames playable', () => {
+    const audio = concat(frame(), frame());
+    const tagged = addId3Tag(addId3Tag(audio, { title: 'Old' }), { title: 'New title' });
+    assert.strictEqual(getDuration(tagged), 480_000);
+    assert.strictEqual(tagged.length, createId3Tag({ title: 'New title' }).length + audio.length);
+  });
+
+  test('chapters from boundaries and segments', () => {
+    const boundaries = [
+      { offset: 0, duration: 1_000_000, text: 'First sentence.' },
+      { offset: 1_500_000, duration: 1_000_000, text: 'Second sentence.' }
+    ];
+    assert.deepStrictEqual(chaptersFromBoundaries(boundaries, 3_000_000), [
+      { title: 'First sentence.', start: 0, end: 1_500_000 },
+      { title: 'Second sentence.', start: 1_500_000, end: 3_000_000 }
+    ]);
+    assert.deepStrictEqual(chaptersFromSegments([{ offset: 100, duration: 200 }], ['Intro']), [
+      { title: 'Intro', start: 100, end: 300 }
+    ]);
+    assert.throws(() => chaptersFromSegments([{ offset: 0, duration: 1 }], []), ValueError);
+    assert.throws(() => createId3Tag({ chapters: [{ title: 'Bad', start: 10, end: 5 }] }), ValueError);
+  });
+});
@@ -0,0 +1,120 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { installFakeWebSocket } from './fake-websocket.js';
+import {
+  Communicate,
+  IsomorphicCommunicate,
+  DEFAULT_NORMALIZATION_RULES,
+  ENGLISH_NORMALIZER_LANGUAGE,
+  Lexicon,
+  TextNormalizer
+} from '../dist/index.js';
+import { Communicate as BrowserCommunicate } from '../dist/browser.js';
+
+describe('Text normalization', () => {
+  const sayAs = new TextNormalizer();
+  const words = new TextNormalizer({ mode: 'words' });
+
+  test('say-as mode wraps dates, times, fractions and numbers', () => {
+    assert.strictEqual(
+      sayAs.apply('On 3/4/2024 at 10:30 pm, 3/4 of 1,234.5 items, 21st.', 'en-US'),
+      "On <say-as interpret-as='date' format='mdy'>3/4/2024</say-as> at "
+      + "<say-as interpret-as='time' format='hms12'>10:30 pm</say-as>, "
+      + "<say-as interpret-as='fraction'>3/4</say-as> of "
+      + "<say-as interpret-as='cardinal'>1,234.5</say-as> items, "
+      + "<say-as interpret-as='ordinal'>21st</say-as>."
+    );
+  });
+
+  test('words mode spells out mixed formats', () => {
+    assert.strictEqual(
+      words.apply('v2.3.1 raised $1.2M at 10km/h: 3/4 done, 50%, $5.50 and 2024-01-02 at 12:05.', 'en-US'),
+      'version two point three point one raised one point two million dollars at ten kilometers per hour: '
+      + 'three quarters done, fifty percent, five dollars and fifty cents and '
+      + 'January second, twenty twenty-four at twelve oh five.'
+    );
+    assert.strictEqual(words.apply('1st 22nd 1/2 2/3 0.5 £1 100 EUR', 'en-GB'),
+      'first twenty-second one half two thirds zero point five one pound one hundred euros');
+  });
+
+  test('number and date notation follow the locale', () => {
+    assert.strictEqual(words.apply('3/4/2024', 'en-US'), 'March fourth, twenty twenty-four');
+    assert.strictEqual(words.apply('3/4/2024', 'en-GB'), 'April third, twenty twenty-four');
+    assert.strictEqual(
+      sayAs.apply('1.234,5 am 3.4.2024', 'de-DE'),
+      "<say-as interpret-as='cardinal'>1.234,5</say-as> am <say-as interpret-as='date' format='dmy'>3.4.2024</say-as>"
+    );
+    // Without spoken forms for the language, only say-as is used
+    assert.strictEqual(words.apply('$1.2M 21st', 'de-DE'), '$1.2M 21st');
+  });
+
+  test('leaves words, plain integers, invalid values and elements unchanged', () => {
+    assert.strictEqual(words.apply('abc3/4 2024 13/32/2024 25:00 k8s', 'en-US'), 'abc3/4 2024 13/32/2024 25:00 k8s');
+    assert.strictEqual(
+      words.apply("<sub alias='ten k'>10km</sub> 10km &amp; 10:00 o&apos;clock", 'en-US'),
+      "<sub alias='ten k'>10km</sub> ten kilometers &amp; ten o&apos;clock o&apos;clock"
+    );
+  });
+
+  test('accepts custom rules and languages', () => {
+    const normalizer = new TextNormalizer({
+      mode: 'words',
+      rules: [
+        {
+          name: 'hashtag',
+          pattern: /#(\w+)/u,
+          normalize: match => ({ words: `hashtag ${match[1]}` }),
+        },
+        ...DEFAULT_NORMALIZATION_RULES,
+      ],
+      languages: {
+        'en-IN': { ...ENGLISH_NORMALIZER_LANGUAGE, version: parts => `release ${parts.join(' dot ')}` },
+      },
+    });
+    assert.strictEqual(normalizer.apply('#tts v2.1', 'en-IN'), 'hashtag tts release 2 dot 1');
+    assert.strictEqual(normalizer.apply('#tts v2.1', 'en-US'), 'hashtag tts version two point one');
+  });
+
+  test('every Communicate class builds the same SSML from the same text and options', async () => {
+    const implementations = [
+      [Communicate, {}],
+      [IsomorphicCommunicate, { hideNode: true }],
+      [BrowserCommunicate, {}],
+    ];
+    const documents = [];
+    for (const [Class, fake] of implementations) {
+      const restore = installFakeWebSocket({
+        ...fake,
+        respond: ssml => {
+          documents.push(ssml.slice(ssml.indexOf('\r\n\r\n') + 4));
+          return {};
+        },
+      });
+      try {
+        const communicate = new Class('Pay $5 (50%) & *go* 3/4/2024\u0007 with TTS.', {
+          voice: 'en-US-EmmaMultilingualNeural',
+          normalizer: new TextNormalizer(),
+          lexicon: new Lexicon({ TTS: 'text to speech' }),
+        });
+        for await (const chunk of communicate.stream()) {
+          assert.strictEqual(chunk.type, 'audio');
+        }
+      } finally {
+        restore();
+      }
+    }
+    assert.strictEqual(documents.length, 3);
+    assert(documents[0].includes(
+      "Pay five dollars (fifty percent) &amp; *go* <say-as interpret-as='date' format='mdy'>3/4/2024</say-as>  with "
+    ), documents[0]);
+    assert.strictEqual(documents[1], documents[0]);
+    assert.strictEqual(documents[2], documents[0]);
+  });
+
+  test('Communicate accepts a normalizer with lexicons', () => {
+    assert.doesNotThrow(() => new Communicate('v2.3.1', {
+      normalizer: words,
+      lexicon: new Lexicon({ TTS: 'text to speech' }),
+    }));
+  });
+});
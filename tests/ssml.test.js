@@ -0,0 +1,121 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { Communicate, Lexicon, ValueError, splitSsml, ssml, validateSsml } from '../dist/index.js';
+
+const SSML = "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
+  + "<voice name='en-US-AriaNeural'><prosody rate='+10%'>"
+  + "Hello there. <break time='500ms'/> Today is <say-as interpret-as='date'>2024-01-02</say-as>."
+  + "</prosody></voice></speak>";
+
+describe('SSML input', () => {
+  test('validateSsml accepts well-formed documents and rejects malformed ones', () => {
+    assert.doesNotThrow(() => validateSsml(SSML));
+    assert.throws(() => validateSsml('<speak>No voice</speak>'), ValueError);
+    assert.throws(() => validateSsml("<speak><voice name='x'>a & b</voice></speak>"), ValueError);
+    assert.throws(() => validateSsml("<speak><voice name='x'>a</prosody></voice></speak>"), ValueError);
+  });
+
+  test('splitSsml re-opens elements across chunks', () => {
+    const chunks = splitSsml(SSML, 16);
+    assert(chunks.length > 1, 'Should split into several chunks');
+    for (const chunk of chunks) {
+      assert.doesNotThrow(() => validateSsml(chunk), 'Each chunk should be a valid document');
+      assert(chunk.includes("<prosody rate='+10%'>"), 'Each chunk should re-open the prosody element');
+    }
+    assert(
+      chunks.some(chunk => chunk.includes("<say-as interpret-as='date'>2024-01-02</say-as>")),
+      'say-as elements should not be split'
+    );
+  });
+
+  test('splitSsml applies the byte budget to every chunk alike', () => {
+    const doc = "<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>"
+      + "<voice name='en-US-AriaNeural'>" + 'hello world this is a test of the split. '.repeat(5) + '</voice></speak>';
+    const chunks = splitSsml(doc, 60);
+    // The root tags do not use up the first chunk's budget either
+    assert(chunks[0].includes('hello world this is a test of the split. hello world'), chunks[0]);
+    for (const chunk of chunks) {
+      const content = chunk.replace(/^(<[^/][^>]*>)+/, '').replace(/(<\/[^>]+>)+$/, '');
+      assert(new TextEncoder().encode(content).length <= 60, content);
+    }
+  });
+
+  test('Communicate.fromSsml validates its input', () => {
+    assert(Communicate.fromSsml(SSML) instanceof Communicate, 'Should create Communicate instance');
+    assert.throws(() => Communicate.fromSsml('<speak>'), ValueError);
+  });
+
+  test('ssml() builds an escaped, valid document', () => {
+    const doc = ssml()
+      .voice('en-US-AriaNeural', v => v
+        .prosody({ rate: '+10%' }, p => p
+          .text('Fish & chips')
+          .break('500ms')
+          .sayAs('date', '2024-01-02')))
+      .build();
+
+    assert.doesNotThrow(() => validateSsml(doc));
+    assert(doc.includes('Fish &amp; chips'), 'Text nodes should be escaped');
+    assert(doc.includes('(en-US, AriaNeural)'), 'Voice names should be normalized');
+    assert(Communicate.fromSsml(ssml().voice('en-US-AriaNeural', 'Hi')) instanceof Communicate);
+  });
+
+  test('ssml() validates voices and prosody values', () => {
+    assert.throws(() => ssml().voice('not-a-voice', 'Hi'), ValueError);
+    assert.throws(() => ssml().voice('en-US-AriaNeural', v => v.prosody({ rate: 'fast' }, 'Hi')), ValueError);
+    assert.throws(() => ssml().build(), ValueError);
+  });
+});
+
+describe('Pronunciation lexicons', () => {
+  const lexicon = new Lexicon({
+    Nguyen: { phoneme: 'w\u026an' },
+    SQL: 'sequel',
+    'SQL Server': { alias: 'sequel server' },
+    k8s: { text: 'Kubernetes', caseSensitive: false },
+    'AT&T': 'A T and T',
+  }, { locale: 'en' });
+
+  test('rewrites whole words, longest phrase first and case-aware', () => {
+    assert.strictEqual(
+      Lexicon.apply('Nguyen&apos;s SQL Server, SQL, sql, SQLite, K8S and AT&amp;T.', [lexicon], 'en-US'),
+      "<phoneme alphabet='ipa' ph='w\u026an'>Nguyen</phoneme>&apos;s "
+      + "<sub alias='sequel server'>SQL Server</sub>, <sub alias='sequel'>SQL</sub>, sql, SQLite, "
+      + "Kubernetes and <sub alias='A T and T'>AT&amp;T</sub>."
+    );
+  });
+
+  test('applies only lexicons for the language of the voice', () => {
+    const german = new Lexicon({ SQL: 'es ku el' }, { locale: 'de-DE' });
+    assert.strictEqual(Lexicon.apply('SQL', [german, lexicon], 'en-GB'), "<sub alias='sequel'>SQL</sub>");
+    assert.strictEqual(Lexicon.apply('SQL', [german, lexicon], 'de-DE'), "<sub alias='es ku el'>SQL</sub>");
+    assert.strictEqual(Lexicon.apply('SQL', [lexicon], 'fr-FR'), 'SQL');
+  });
+
+  test('fromPls reads lexemes, preferred pronunciations and the document language', () => {
+    const pls = Lexicon.fromPls(`<?xml version="1.0" encoding="UTF-8"?>
+      <lexicon version="1.0" xmlns="http://www.w3.org/2005/01/pronunciation-lexicon"
+        alphabet="x-microsoft-sapi" xml:lang="en-US">
+        <!-- <lexeme><grapheme>Hidden</grapheme><alias>no</alias></lexeme> -->
+        <lexeme><grapheme>BTW</grapheme><alias>By the way</alias></lexeme>
+        <lexeme>
+          <grapheme>Benigni</grapheme>
+          <phoneme>b eh 1 - n iy 2</phoneme>
+          <phoneme prefer="true" alphabet="ipa">b\u025b\u02c8ni\u02d0nji</phoneme>
+        </lexeme>
+        <lexeme><grapheme>Tom &amp; Jerry</grapheme><grapheme>T&amp;J</grapheme><alias>Tom and Jerry</alias></lexeme>
+      </lexicon>`);
+    assert.strictEqual(pls.locale, 'en-US');
+    const content = Lexicon.apply('BTW, Benigni likes Tom &amp; Jerry and Hidden.', [pls], 'en-US');
+    assert(content.startsWith("<sub alias='By the way'>BTW</sub>, <phoneme alphabet='ipa' ph='b\u025b\u02c8ni\u02d0nji'>Benigni</phoneme>"));
+    assert(content.endsWith("<sub alias='Tom and Jerry'>Tom &amp; Jerry</sub> and Hidden."));
+    assert.throws(() => Lexicon.fromPls('<lexeme/>'), ValueError);
+  });
+
+  test('rejects invalid entries', () => {
+    assert.throws(() => new Lexicon({ SQL: { alias: 'sequel', text: 'sequel' } }), ValueError);
+    assert.throws(() => new Lexicon({ SQL: {} }), ValueError);
+    assert.throws(() => new Lexicon({ Nguyen: { phoneme: 'w\u026an', alphabet: 'arpabet' } }), ValueError);
+    assert.doesNotThrow(() => new Communicate('SQL', { lexicon: [lexicon] }));
+  });
+});
@@ -0,0 +1,228 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { SubMaker, ValueError, createSRT, createVTT } from '../dist/index.js';
+
+function feedWords(subMaker, words) {
+  for (const [offset, duration, text] of words) {
+    subMaker.feed({ type: 'WordBoundary', offset, duration, text });
+  }
+  return subMaker;
+}
+
+describe('SubMaker', () => {
+  test('getVtt writes style, notes, cue settings and escaped text', () => {
+    const subMaker = feedWords(new SubMaker(), [[0, 5_000_000, 'Tom & <Jerry>']]);
+    const vtt = subMaker.getVtt({
+      cueSettings: { line: '85%', align: 'center' },
+      style: '::cue {\n\n  color: yellow;\n}',
+      notes: ['Generated']
+    });
+    assert.strictEqual(vtt, [
+      'WEBVTT\n',
+      'STYLE\n::cue {\n  color: yellow;\n}\n',
+      'NOTE\nGenerated\n',
+      '1\n00:00:00.000 --> 00:00:00.500 line:85% align:center\nTom &amp; &lt;Jerry&gt;\n'
+    ].join('\n'));
+    assert.throws(() => subMaker.getVtt({ notes: ['a --> b'] }), ValueError);
+  });
+
+  test('getJson returns cues in seconds', () => {
+    const subMaker = feedWords(new SubMaker(), [[12_345_678, 10_000_000, 'Hello'], [22_345_678, 5_000_000, 'world']]);
+    assert.deepStrictEqual(JSON.parse(subMaker.getJson()), [
+      { index: 1, start: 1.235, end: 2.235, text: 'Hello' },
+      { index: 2, start: 2.235, end: 2.735, text: 'world' }
+    ]);
+  });
+
+  test('all subtitle formats round timestamps the same way', () => {
+    const words = [[9_999_999, 10_000_000, 'Hello']];
+    const subMaker = feedWords(new SubMaker(), words);
+    const boundaries = words.map(([offset, duration, text]) => ({ offset, duration, text }));
+
+    assert(subMaker.getSrt().includes('00:00:01,000 --> 00:00:02,000'));
+    assert(createSRT(boundaries).includes('00:00:01,000 --> 00:00:02,000'));
+    assert(subMaker.getVtt().includes('00:00:01.000 --> 00:00:02.000'));
+    assert(createVTT(boundaries).includes('00:00:01.000 --> 00:00:02.000'));
+  });
+});
+
+describe('SubMaker segmentation', () => {
+  // Words of 400 ms with 100 ms pauses
+  function words(text, start = 0) {
+    return text.split(' ').map((word, i) => [start + i * 5_000_000, 4_000_000, word]);
+  }
+
+  test('segment splits at sentence boundaries and punctuation', () => {
+    const subMaker = feedWords(new SubMaker(), words('Hello there. How are you'));
+    subMaker.feed({ type: 'SentenceBoundary', offset: 15_000_000, duration: 0, text: 'are you' });
+    subMaker.segment();
+
+    assert.deepStrictEqual(JSON.parse(subMaker.getJson()).map(cue => cue.text), ['Hello there.', 'How', 'are you']);
+  });
+
+  test('segment wraps and balances lines', () => {
+    const subMaker = feedWords(new SubMaker(), words('one two three four five six seven eight nine ten'));
+    const issues = subMaker.segment({ maxCharsPerLine: 20, maxCharsPerSecond: 100 });
+    const cues = JSON.parse(subMaker.getJson());
+
+    assert.deepStrictEqual(cues.map(cue => cue.text), [
+      'one two three four\nfive six seven eight',
+      'nine ten'
+    ]);
+    for (const line of cues.flatMap(cue => cue.text.split('\n'))) {
+      assert(line.length <= 20);
+    }
+    assert.deepStrictEqual(issues, []);
+  });
+
+  test('segment extends short cues and keeps gaps', () => {
+    const subMaker = feedWords(new SubMaker(), [[0, 2_000_000, 'Hi.'], [3_000_000, 2_000_000, 'Yes.'], [40_000_000, 2_000_000, 'Bye.']]);
+    subMaker.segment();
+    const cues = JSON.parse(subMaker.getJson());
+
+    // Limited by the next cue minus the 83 ms gap
+    assert.strictEqual(cues[0].end, 0.217);
+    // Extended to the minimum duration
+    assert.strictEqual(cues[1].end, 1.133);
+  });
+
+  test('segment reports rules it cannot satisfy', () => {
+    const subMaker = feedWords(new SubMaker(), [[0, 1_000_000, 'Supercalifragilisticexpialidocious'], [1_000_000, 1_000_000, 'now']]);
+    const issues = subMaker.segment({ maxCharsPerLine: 20, maxLines: 1 });
+    assert.deepStrictEqual(issues.map(issue => `${issue.cue}:${issue.rule}`), [
+      '1:maxCharsPerLine',
+      '1:maxCharsPerSecond',
+      '1:minDuration'
+    ]);
+
+    const overlapping = feedWords(new SubMaker(), [[0, 1_000_000, 'Go.'], [500_000, 1_000_000, 'Now.']]);
+    assert(overlapping.segment().some(issue => issue.cue === 1 && issue.rule === 'minGap'));
+    assert.throws(() => new SubMaker().segment({ maxLines: 0 }), ValueError);
+  });
+});
+
+describe('SubMaker karaoke formats', () => {
+  function karaoke() {
+    const subMaker = feedWords(new SubMaker(), [
+      [10_000_000, 4_000_000, 'Hello'],
+      [15_000_000, 5_000_000, '{world}']
+    ]);
+    subMaker.mergeCues(2);
+    return subMaker;
+  }
+
+  test('getVtt writes word timestamps', () => {
+    assert(karaoke().getVtt({ wordTimestamps: true }).includes(
+      '00:00:01.000 --> 00:00:02.000\nHello <00:00:01.500>{world}\n'
+    ));
+  });
+
+  test('getAss writes karaoke tags', () => {
+    const ass = karaoke().getAss();
+    assert(ass.startsWith('[Script Info]\n'));
+    assert(ass.includes('Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\k50}Hello {\\k50}\\{world\\}\n'));
+  });
+
+  test('getLrc writes word timestamps', () => {
+    assert.strictEqual(
+      karaoke().getLrc({ title: 'Greeting' }),
+      '[ti:Greeting]\n[00:01.00]<00:01.00>Hello <00:01.50>{world} <00:02.00>\n[00:02.00]\n'
+    );
+  });
+
+  test('word timing survives segmentation', () => {
+    const subMaker = feedWords(new SubMaker(), [[0, 4_000_000, 'One,'], [5_000_000, 4_000_000, 'two.']]);
+    subMaker.segment();
+    assert(subMaker.getLrc().startsWith('[00:00.00]<00:00.00>One, <00:00.50>two. <00:00.90>'));
+  });
+});
+
+describe('SubMaker TTML and SBV', () => {
+  function cues() {
+    const subMaker = feedWords(new SubMaker(), [
+      [12_000_000, 3_000_000, 'Tom'],
+      [15_000_000, 3_000_000, '&'],
+      [18_000_000, 4_000_000, '"Jerry"'],
+      [36_610_000_000, 5_000_000, '<end>']
+    ]);
+    subMaker.segment({ maxCharsPerLine: 8 });
+    return subMaker;
+  }
+
+  test('getTtml writes an IMSC1 document with escaped text', () => {
+    const ttml = cues().getTtml({ language: 'en-US', title: 'Demo' });
+    assert(ttml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<tt xmlns="http://www.w3.org/ns/ttml"'));
+    assert(ttml.includes('ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"'));
+    assert(ttml.includes('xml:lang="en-US"'));
+    assert(ttml.includes('<ttm:title>Demo</ttm:title>'));
+    assert(ttml.includes('<p xml:id="c1" begin="00:00:01.200" end="00:00:02.200">Tom &amp;<br/>&quot;Jerry&quot;</p>'));
+    assert(ttml.includes('begin="01:01:01.000"'));
+    assert(ttml.trimEnd().endsWith('</tt>'));
+  });
+
+  test('getSbv writes unpadded hours', () => {
+    assert.strictEqual(
+      cues().getSbv(),
+      '0:00:01.200,0:00:02.200\nTom &\n"Jerry"\n\n1:01:01.000,1:01:01.833\n<end>\n'
+    );
+  });
+});
+
+describe('SubMaker parsing and cue operations', () => {
+  const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\nthere\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nworld\r\n';
+
+  function texts(subMaker) {
+    return JSON.parse(subMaker.getJson()).map(cue => `${cue.start}-${cue.end}:${cue.text}`);
+  }
+
+  test('fromSrt round-trips SRT', () => {
+    const subMaker = SubMaker.fromSrt(srt);
+    assert.strictEqual(subMaker.getSrt(), srt.slice(1));
+    assert.throws(() => SubMaker.fromSrt('1\n00:00:01 --> 00:00:02\nBad'), ValueError);
+  });
+
+  test('fromVtt skips blocks and markup and reads word timestamps', () => {
+    const vtt = [
+      'WEBVTT - Demo',
+      '',
+      'STYLE',
+      '::cue { color: lime; }',
+      '',
+      'NOTE a comment',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.000 line:85%',
+      '<v Narrator>Tom &amp; <b>Jerry</b></v>',
+      '',
+      '00:00:02.000 --> 00:00:03.000',
+      'Hello <00:00:02.400>world',
+      ''
+    ].join('\n');
+    const subMaker = SubMaker.fromVtt(vtt);
+    assert.deepStrictEqual(texts(subMaker), ['1-2:Tom & Jerry', '2-3:Hello world']);
+    assert(subMaker.getLrc().includes('[00:02.00]<00:02.00>Hello <00:02.40>world <00:03.00>'));
+    assert.throws(() => SubMaker.fromVtt('00:01.000 --> 00:02.000\nNo header'), ValueError);
+  });
+
+  test('shift, scale and clip adjust cue times', () => {
+    const subMaker = SubMaker.fromSrt(srt);
+    subMaker.shift(-1500);
+    assert.deepStrictEqual(texts(subMaker), ['0-1:Hello\nthere', '1.5-2.5:world']);
+
+    subMaker.scale(2);
+    assert.deepStrictEqual(texts(subMaker), ['0-2:Hello\nthere', '3-5:world']);
+
+    subMaker.clip(1000, 4000);
+    assert.deepStrictEqual(texts(subMaker), ['1-2:Hello\nthere', '3-4:world']);
+    assert.throws(() => subMaker.scale(0), ValueError);
+  });
+
+  test('merge orders cues by start time', () => {
+    const generated = feedWords(new SubMaker(), [[25_000_000, 3_000_000, 'between']]);
+    const subMaker = SubMaker.fromSrt(srt);
+    subMaker.merge(generated);
+    assert.deepStrictEqual(texts(subMaker), ['1-2.5:Hello\nthere', '2.5-2.8:between', '3-4:world']);
+    assert(subMaker.getSrt().startsWith('1\r\n'));
+    assert(subMaker.getSrt().includes('3\r\n00:00:03,000'));
+  });
+});
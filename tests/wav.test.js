@@ -0,0 +1,68 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  EdgeTTS,
+  ValueError,
+  createWavHeader,
+  encodeWav,
+  getWavFormat,
+  patchWavHeader
+} from '../dist/index.js';
+
+function ascii(data, offset) {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+describe('WAV container', () => {
+  test('getWavFormat reads raw output formats', () => {
+    assert.deepStrictEqual(getWavFormat('raw-24khz-16bit-mono-pcm'), {
+      sampleRate: 24000,
+      bitsPerSample: 16,
+      channels: 1,
+      encoding: 'pcm'
+    });
+    assert.strictEqual(getWavFormat('raw-8khz-8bit-mono-mulaw').encoding, 'mulaw');
+    assert.throws(() => getWavFormat('audio-24khz-48kbitrate-mono-mp3'), ValueError);
+  });
+
+  test('encodeWav writes a canonical PCM header', () => {
+    const wav = encodeWav(new Uint8Array(100), getWavFormat('raw-16khz-16bit-mono-pcm'));
+    const view = new DataView(wav.buffer);
+    assert.strictEqual(wav.length, 144);
+    assert.strictEqual(ascii(wav, 0), 'RIFF');
+    assert.strictEqual(view.getUint32(4, true), 136);
+    assert.strictEqual(ascii(wav, 8), 'WAVE');
+    assert.strictEqual(view.getUint16(20, true), 1);
+    assert.strictEqual(view.getUint32(24, true), 16000);
+    assert.strictEqual(view.getUint32(28, true), 32000);
+    assert.strictEqual(ascii(wav, 36), 'data');
+    assert.strictEqual(view.getUint32(40, true), 100);
+  });
+
+  test('mu-law files get a fact chunk and padding', () => {
+    const wav = encodeWav(new Uint8Array(101), getWavFormat('raw-8khz-8bit-mono-mulaw'));
+    const view = new DataView(wav.buffer);
+    assert.strictEqual(wav.length, 58 + 102);
+    assert.strictEqual(view.getUint16(20, true), 7);
+    assert.strictEqual(ascii(wav, 38), 'fact');
+    assert.strictEqual(view.getUint32(46, true), 101);
+    assert.strictEqual(view.getUint32(54, true), 101);
+    assert.strictEqual(view.getUint32(4, true), wav.length - 8);
+  });
+
+  test('streaming headers use placeholder sizes until patched', () => {
+    const header = createWavHeader(getWavFormat('raw-24khz-16bit-mono-pcm'));
+    const view = new DataView(header.buffer);
+    assert.strictEqual(view.getUint32(4, true), 0xffffffff);
+    assert.strictEqual(view.getUint32(40, true), 0xffffffff);
+
+    patchWavHeader(header, 4800);
+    assert.strictEqual(view.getUint32(4, true), 4836);
+    assert.strictEqual(view.getUint32(40, true), 4800);
+  });
+
+  test('synthesizeToWav rejects formats with a container', async () => {
+    const tts = new EdgeTTS('Hello', 'en-US-EmmaMultilingualNeural');
+    await assert.rejects(tts.synthesizeToWav({ outputFormat: 'riff-24khz-16bit-mono-pcm' }), ValueError);
+  });
+});